@@ -0,0 +1,130 @@
+import type { WriteStream } from "./sink";
+
+/** Options for buffered (batched, asynchronous) writing. */
+export interface BufferOptions {
+  /** Maximum bytes written to the stream in one batch. Defaults to 65536. */
+  maxBatchSize?: number;
+  /** Milliseconds to collect lines before writing a batch. Defaults to 10. */
+  flushInterval?: number;
+}
+
+// Streams that signal backpressure with a `drain` event (e.g. NodeJS.WritableStream)
+interface DrainableStream extends WriteStream {
+  once(event: "drain", listener: () => void): unknown;
+}
+
+function isDrainable(stream: WriteStream): stream is DrainableStream {
+  return typeof (stream as Partial<DrainableStream>).once === "function";
+}
+
+/**
+ * @internal A stream wrapper that queues lines and writes them in batches,
+ * waiting for `drain` whenever the underlying stream reports backpressure.
+ */
+export class BufferedStream implements WriteStream {
+  private stream: WriteStream;
+  private maxBatchSize: number;
+  private flushInterval: number;
+  private chunks: string[] = [];
+  private pendingBytes = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private flushing: Promise<void> | undefined;
+  private closed = false;
+
+  constructor(
+    stream: WriteStream,
+    { maxBatchSize = 65536, flushInterval = 10 }: BufferOptions = {},
+  ) {
+    this.stream = stream;
+    this.maxBatchSize = maxBatchSize;
+    this.flushInterval = flushInterval;
+  }
+
+  /** The wrapped stream. */
+  get target(): WriteStream {
+    return this.stream;
+  }
+
+  write(chunk: string): boolean {
+    if (this.closed) return false;
+    this.chunks.push(chunk);
+    this.pendingBytes += Buffer.byteLength(chunk);
+    if (this.pendingBytes >= this.maxBatchSize) {
+      this.flushInBackground();
+    } else {
+      this.scheduleFlush();
+    }
+    return true;
+  }
+
+  private scheduleFlush(): void {
+    if (this.timer !== undefined || this.flushing !== undefined) return;
+    this.timer = setTimeout(() => this.flushInBackground(), this.flushInterval);
+  }
+
+  private flushInBackground(): void {
+    // Failed background batches are dropped; an awaiting flush()/close() sees the error
+    this.flush().catch(() => {});
+  }
+
+  // Take queued chunks up to the batch size (always at least one chunk)
+  private takeBatch(): string {
+    let bytes = 0;
+    let count = 0;
+    while (count < this.chunks.length) {
+      const size = Buffer.byteLength(this.chunks[count]!);
+      if (count > 0 && bytes + size > this.maxBatchSize) break;
+      bytes += size;
+      count++;
+    }
+    this.pendingBytes -= bytes;
+    return this.chunks.splice(0, count).join("");
+  }
+
+  private async drainQueue(): Promise<void> {
+    while (this.chunks.length > 0) {
+      const ok = this.stream.write(this.takeBatch());
+      if (ok === false && isDrainable(this.stream)) {
+        const stream = this.stream;
+        await new Promise<void>((resolve) => stream.once("drain", resolve));
+      }
+    }
+  }
+
+  /** Write all queued lines, resolving once the stream has accepted them. */
+  async flush(): Promise<void> {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.chunks.length === 0) return;
+    this.flushing = this.drainQueue().finally(() => {
+      this.flushing = undefined;
+      // Lines queued while the last batch was settling
+      if (this.chunks.length > 0) this.scheduleFlush();
+    });
+    await this.flushing;
+  }
+
+  /** Write all queued lines immediately, ignoring backpressure. */
+  flushSync(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.chunks.length === 0) return;
+    const data = this.chunks.join("");
+    this.chunks = [];
+    this.pendingBytes = 0;
+    this.stream.write(data);
+  }
+
+  /** Flush queued lines and stop accepting new ones. */
+  async close(): Promise<void> {
+    await this.flush();
+    this.closed = true;
+  }
+}
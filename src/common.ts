@@ -1,4 +1,4 @@
-import type { TimerOptions } from "./duration";
+import type { TimeOptions, TimerOptions } from "./duration";
 
 /** Available log levels in order of severity (lowest to highest). */
 export const LOG_LEVELS = ["debug", "info", "warn", "error", "fatal"] as const;
@@ -6,9 +6,29 @@ export const LOG_LEVELS = ["debug", "info", "warn", "error", "fatal"] as const;
 /** Log severity level. */
 export type LogLevel = (typeof LOG_LEVELS)[number];
 
+/**
+ * Numeric severity of each built-in level. Custom levels are ordered among
+ * them by their own `severity`.
+ */
+export const LEVEL_SEVERITIES: Record<LogLevel, number> = {
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+};
+
+/** Structured fields bound to a logger and attached to every record. */
+export type LogContext = Record<string, unknown>;
+
+/** Log methods generated for custom levels, named after each level. */
+export type LevelMethods<L extends string> = {
+  [K in L]: (message: any, ...args: any[]) => void;
+};
+
 /** Base logging interface shared by Logger and Timer. */
-export interface AbstractLogger {
-  log(level: LogLevel, message: any, ...args: any[]): void;
+export interface AbstractLogger<L extends string = never> {
+  log(level: LogLevel | L, message: any, ...args: any[]): void;
   logDebug(message: any, ...args: any[]): void;
   logInfo(message: any, ...args: any[]): void;
   logWarn(message: any, ...args: any[]): void;
@@ -21,12 +41,51 @@ export interface AbstractLogger {
   fatal(message: any, ...args: any[]): void;
 }
 
+/** Timer controls, without custom level methods. */
+export interface BaseTimer<L extends string = never> extends AbstractLogger<L> {
+  /** Record a checkpoint ending the current lap. Ignored once stopped. */
+  mark(label: string): void;
+  /** Record a checkpoint like {@link mark} and return the lap's milliseconds. */
+  lap(label: string): number;
+  /** Milliseconds since the start (up to the stop time once stopped), without logging. */
+  elapsed(): number;
+  /** Alias for {@link end} with the defaults. */
+  stop(): number;
+  /**
+   * Freeze the timer and log a summary of its laps, with per-lap and
+   * cumulative durations (a `laps` array in jsonl). Later log calls report
+   * the frozen duration.
+   * @param level - Defaults to "info"
+   * @param message - Defaults to "Timer stopped"
+   * @param args - Additional values to log
+   * @returns the total milliseconds
+   */
+  end(level?: LogLevel | L, message?: any, ...args: any[]): number;
+  /** Random id of this timer's span (16 hex digits). */
+  readonly spanId: string;
+  /**
+   * Create a nested span timer measured from now, sharing this timer's
+   * format unless overridden.
+   */
+  child(name: string, options?: TimerOptions): ITimer<L>;
+  /** Render this span and its descendants as indented text with durations. */
+  renderTree(): string;
+}
+
 /** Timer instance that prepends elapsed time to log messages. */
-export interface ITimer extends AbstractLogger {}
+export type ITimer<L extends string = never> = BaseTimer<L> & LevelMethods<L>;
 
-/** Logger instance with configuration methods and timer support. */
-export interface ILogger extends AbstractLogger {
-  setLogLevel(level: LogLevel): void;
+/** Configuration methods of a logger, without custom level methods. */
+export interface BaseLogger<L extends string = never> extends AbstractLogger<L> {
+  setLogLevel(level: LogLevel | L): void;
   setModule(module: string): void;
-  timer(options?: TimerOptions): ITimer;
+  timer(options?: TimerOptions): ITimer<L>;
+  time<T>(label: string, fn: () => T, options?: TimeOptions<L>): T;
+  dump(): void;
+  child(fields: LogContext): ILogger<L>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
 }
+
+/** Logger instance with configuration methods and timer support. */
+export type ILogger<L extends string = never> = BaseLogger<L> & LevelMethods<L>;
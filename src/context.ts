@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { LogContext } from "./common";
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/** @internal Get the fields bound to the current async context. */
+export function getAmbientContext(): LogContext {
+  return contextStorage.getStore() ?? {};
+}
+
+/**
+ * Run a function with fields bound to the current async context.
+ * Nested calls merge their fields with the enclosing context.
+ */
+export function runWithContext<T>(fields: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...getAmbientContext(), ...fields }, fn);
+}
+
+/** @internal The store of the current async context, unique per {@link runWithContext} call. */
+export function getContextStore(): object | undefined {
+  return contextStorage.getStore();
+}
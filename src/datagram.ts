@@ -0,0 +1,127 @@
+import { constants, endianness } from "node:os";
+
+/** @internal A Unix datagram socket connected to one path. */
+export interface UnixDatagramSocket {
+  /**
+   * Send one datagram without blocking.
+   * @throws Error with the errno `code` if it was not sent (e.g. EAGAIN when the receiver's queue is full)
+   */
+  send(message: string): void;
+  close(): void;
+}
+
+const AF_UNIX = 1;
+const SOCK_DGRAM = 2;
+
+// Symbols of the C library used through bun:ffi
+const LIBC_SYMBOLS = {
+  socket: { args: ["i32", "i32", "i32"], returns: "i32" },
+  connect: { args: ["i32", "ptr", "u32"], returns: "i32" },
+  send: { args: ["i32", "ptr", "u64", "i32"], returns: "i64" },
+  close: { args: ["i32"], returns: "i32" },
+} as const;
+
+interface Libc {
+  socket(domain: number, type: number, protocol: number): number;
+  connect(fd: number, address: Uint8Array, length: number): number;
+  send(fd: number, data: Uint8Array, length: number, flags: number): number | bigint;
+  close(fd: number): number;
+  errno(): number;
+}
+
+let libc: Libc | null | undefined;
+
+// The C library, or null outside Bun on Linux and macOS (Node cannot write Unix datagrams)
+function loadLibc(): Libc | null {
+  if (libc !== undefined) return libc;
+  libc = null;
+  const darwin = process.platform === "darwin";
+  if (typeof Bun === "undefined" || (!darwin && process.platform !== "linux")) {
+    return libc;
+  }
+  const ffi = import.meta.require("bun:ffi") as typeof import("bun:ffi");
+  const errnoSymbol = darwin ? "__error" : "__errno_location";
+  const { symbols } = ffi.dlopen(darwin ? "libSystem.B.dylib" : "libc.so.6", {
+    ...LIBC_SYMBOLS,
+    [errnoSymbol]: { args: [], returns: "ptr" },
+  });
+  const errnoLocation = (symbols as unknown as Record<string, () => unknown>)[errnoSymbol]!;
+  libc = {
+    socket: symbols.socket,
+    connect: symbols.connect,
+    send: symbols.send,
+    close: symbols.close,
+    errno: () => ffi.read.i32(errnoLocation() as Parameters<typeof ffi.read.i32>[0], 0),
+  } as Libc;
+  return libc;
+}
+
+/** @internal Whether {@link connectUnixDatagram} can work in this runtime. */
+export function supportsUnixDatagrams(): boolean {
+  return loadLibc() !== null;
+}
+
+function errnoError(syscall: string, errno: number, path: string): NodeJS.ErrnoException {
+  const code =
+    Object.entries(constants.errno).find(([, value]) => value === errno)?.[0] ??
+    `errno ${errno}`;
+  const error: NodeJS.ErrnoException = new Error(`${syscall} ${code} ${path}`);
+  error.code = code;
+  error.errno = errno;
+  error.syscall = syscall;
+  return error;
+}
+
+// sockaddr_un: a host-order 16-bit family on Linux, a length and 8-bit family on macOS
+function socketAddress(path: string): Uint8Array {
+  const darwin = process.platform === "darwin";
+  const encoded = Buffer.from(path);
+  const maxLength = darwin ? 103 : 107;
+  if (encoded.length > maxLength) {
+    throw new Error(`Invalid Unix socket path: "${path}". Must be at most ${maxLength} bytes`);
+  }
+  const address = Buffer.alloc(2 + encoded.length + 1);
+  if (darwin) {
+    address.writeUInt8(address.length, 0);
+    address.writeUInt8(AF_UNIX, 1);
+  } else if (endianness() === "LE") {
+    address.writeUInt16LE(AF_UNIX, 0);
+  } else {
+    address.writeUInt16BE(AF_UNIX, 0);
+  }
+  encoded.copy(address, 2);
+  return address;
+}
+
+/**
+ * @internal Connect a datagram socket to a Unix socket path (Bun only).
+ * @throws Error with the errno `code` if it cannot connect, e.g. EPROTOTYPE
+ * for a stream socket, ECONNREFUSED when nothing listens, ENOENT
+ */
+export function connectUnixDatagram(path: string): UnixDatagramSocket {
+  const c = loadLibc();
+  if (!c) throw new Error("Unix datagram sockets require Bun on Linux or macOS");
+  const address = socketAddress(path);
+  const fd = c.socket(AF_UNIX, SOCK_DGRAM, 0);
+  if (fd < 0) throw errnoError("socket", c.errno(), path);
+  if (c.connect(fd, address, address.length) < 0) {
+    const errno = c.errno();
+    c.close(fd);
+    throw errnoError("connect", errno, path);
+  }
+  // Dropping a message beats blocking the event loop on a full receive queue
+  const MSG_DONTWAIT = process.platform === "darwin" ? 0x80 : 0x40;
+  let open = true;
+  return {
+    send(message) {
+      const data = Buffer.from(message);
+      if (Number(c.send(fd, data, data.length, MSG_DONTWAIT)) < 0) {
+        throw errnoError("send", c.errno(), path);
+      }
+    },
+    close() {
+      if (open) c.close(fd);
+      open = false;
+    },
+  };
+}
@@ -1,3 +1,5 @@
+import type { LogLevel } from "./common";
+
 /**
  * Duration format style for timer output.
  * - `raw`: Raw milliseconds (e.g., "1234ms")
@@ -12,6 +14,60 @@ export type TimerFormat = "raw" | "long" | "short" | "narrow" | "digital";
 export interface TimerOptions {
   /** Duration format style. Defaults to "narrow". */
   format?: TimerFormat;
+  /**
+   * Span name. A named timer is a span: its jsonl records carry a `span`
+   * object with `spanId`, `name` and `event` (plus `parentSpanId` for
+   * children), and it logs a start event at debug level when created and an
+   * end event when ended. The trace context's `spanId` is left untouched.
+   * Children created with `child` are always named.
+   */
+  name?: string;
+  /** Log the span tree (see `renderTree`) when this root timer ends. Defaults to false. */
+  logTree?: boolean;
+  /** Log calls made after this many milliseconds are escalated to at least warn. */
+  warnAfterMs?: number;
+  /** Log calls made after this many milliseconds are escalated to at least error. */
+  errorAfterMs?: number;
+  /**
+   * Watchdog budget: if the timer is not stopped (see `end`/`stop`) within
+   * this many milliseconds, a warning is logged once.
+   */
+  budgetMs?: number;
+}
+
+/** Timer option whose limit a record exceeded, noted as `thresholdExceeded` in jsonl. */
+export type TimerThreshold = "warnAfterMs" | "errorAfterMs" | "budgetMs";
+
+/** @internal Level a log call is escalated to once a threshold is exceeded. */
+export const THRESHOLD_LEVELS: Record<TimerThreshold, LogLevel> = {
+  warnAfterMs: "warn",
+  errorAfterMs: "error",
+  budgetMs: "warn",
+};
+
+/** Options for {@link ILogger.time}. */
+export interface TimeOptions<L extends string = never> extends TimerOptions {
+  /** Also log a line when the function starts. Defaults to false. */
+  logStart?: boolean;
+  /** Level of the start and completion lines. Defaults to "info". */
+  level?: LogLevel | L;
+  /** Level of the failure line. Defaults to "error". */
+  errorLevel?: LogLevel | L;
+  /** Completion taking at least this many milliseconds is logged at `slowLevel`. */
+  slowMs?: number;
+  /** Level of slow completion lines. Defaults to "warn". */
+  slowLevel?: LogLevel | L;
+}
+
+/** A checkpoint recorded by a timer's `mark` or `lap`. */
+export interface TimerLap {
+  label: string;
+  /** Formatted time since the previous checkpoint (or the start). */
+  duration: string;
+  durationMs: number;
+  /** Formatted time since the start. */
+  elapsed: string;
+  elapsedMs: number;
 }
 
 // Type declarations for Intl.DurationFormat (not yet in standard TypeScript lib)
@@ -27,6 +83,7 @@ declare namespace Intl {
     seconds?: "long" | "short" | "narrow" | "numeric" | "2-digit";
     milliseconds?: "long" | "short" | "narrow" | "numeric";
     fractionalDigits?: 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+    millisecondsDisplay?: "auto" | "always";
   }
 
   interface DurationInput {
@@ -63,5 +120,10 @@ export function formatDuration(ms: number, format: TimerFormat): string {
     return `${Math.round(ms)}ms`;
   }
   const duration = msToDuration(ms);
-  return new Intl.DurationFormat(undefined, { style: format }).format(duration);
+  // All-zero durations would otherwise format as "" (shown as an empty tag)
+  const isZero = Object.values(duration).every((value) => value === 0);
+  return new Intl.DurationFormat(undefined, {
+    style: format,
+    millisecondsDisplay: isZero ? "always" : "auto",
+  }).format(duration);
 }
@@ -0,0 +1,141 @@
+import { inspect } from "util";
+
+/**
+ * An error as written to structured output. Non-Error causes and aggregated
+ * values are kept as a message (their string form) plus the original value.
+ */
+export interface SerializedError {
+  /** Absent for non-Error values. */
+  name?: string;
+  message: string;
+  stack?: string;
+  /** Cause chain, outermost first. */
+  causes?: SerializedError[];
+  /** Errors of an AggregateError (or another error's own `errors` array). */
+  errors?: SerializedError[];
+  /** Original non-Error value (not set for strings). */
+  value?: unknown;
+  /** Own enumerable properties, e.g. `code`, `errno`, `syscall` or `statusCode`. */
+  [property: string]: unknown;
+}
+
+/** @internal Keys of a {@link SerializedError} that are not error properties. */
+export const SERIALIZED_ERROR_KEYS = new Set([
+  "name",
+  "message",
+  "stack",
+  "causes",
+  "errors",
+  "value",
+]);
+
+/**
+ * @internal Whether a record value is an error serialized by
+ * {@link serializeError}, i.e. has `name`, `message` and `stack`.
+ */
+export function isSerializedError(value: unknown): value is SerializedError {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Record<string, unknown>)["name"] === "string" &&
+    typeof (value as Record<string, unknown>)["stack"] === "string" &&
+    "message" in value
+  );
+}
+
+/**
+ * @internal `Name: message` of a serialized error, the message alone for
+ * non-Error values.
+ */
+export function formatNestedError(error: SerializedError): string {
+  return error.name ? `${error.name}: ${error.message}` : error.message;
+}
+
+/** @internal Extract error message from an Error object. */
+export function formatErrorMessage(error: Error): string {
+  // Check explicitly for empty string since it's falsy but valid
+  if (error.message !== undefined && error.message !== "") {
+    return error.message;
+  }
+  // Fallback to error name (e.g., "TypeError", "RangeError")
+  return error.name || "Error";
+}
+
+/**
+ * @internal Get the cause chain from an error (with circular reference
+ * protection). A non-Error cause ends the chain as its last entry.
+ */
+export function getErrorCauses(error: Error): unknown[] {
+  const causes: unknown[] = [];
+  const seen = new Set<unknown>([error]);
+  let current = error.cause;
+  while (current !== undefined && current !== null && !seen.has(current)) {
+    causes.push(current);
+    if (!(current instanceof Error)) break;
+    seen.add(current);
+    current = current.cause;
+  }
+  return causes;
+}
+
+// AggregateError.errors, or any other error's own `errors` array
+function getAggregatedErrors(error: Error): unknown[] | undefined {
+  const errors = (error as { errors?: unknown }).errors;
+  return Array.isArray(errors) ? errors : undefined;
+}
+
+/**
+ * @internal Serialize an error with its own enumerable properties, cause
+ * chain and aggregated errors. Errors already being serialized further up
+ * become `[Circular]`.
+ */
+export function serializeError(error: Error): SerializedError {
+  return serializeErrorFields(error, new Set(), true);
+}
+
+function serializeErrorFields(
+  error: Error,
+  ancestors: Set<unknown>,
+  withCauses: boolean,
+): SerializedError {
+  const path = new Set(ancestors).add(error);
+  const causes = withCauses ? getErrorCauses(error) : [];
+
+  const serialized: SerializedError = {
+    name: error.name || "Error",
+    message: formatErrorMessage(error),
+  };
+  if (error.stack) {
+    serialized.stack = error.stack;
+  }
+  for (const [key, value] of Object.entries(error)) {
+    if (SERIALIZED_ERROR_KEYS.has(key) || key === "cause") continue;
+    serialized[key] = value instanceof Error ? serializeValue(value, path) : value;
+  }
+  if (causes.length > 0) {
+    // A flat chain: each cause's own cause is the next entry
+    const chainPath = new Set([...path, ...causes]);
+    serialized.causes = causes.map((cause) =>
+      cause instanceof Error
+        ? serializeErrorFields(cause, chainPath, false)
+        : serializeValue(cause, chainPath),
+    );
+  }
+  const errors = getAggregatedErrors(error);
+  if (errors && errors.length > 0) {
+    serialized.errors = errors.map((nested) => serializeValue(nested, path));
+  }
+  return serialized;
+}
+
+function serializeValue(value: unknown, ancestors: Set<unknown>): SerializedError {
+  if (value instanceof Error) {
+    if (ancestors.has(value)) return { message: "[Circular]" };
+    return serializeErrorFields(value, ancestors, true);
+  }
+  if (typeof value === "string") return { message: value };
+  return {
+    message: inspect(value, { depth: 2, colors: false, breakLength: Infinity }),
+    value,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * What happens after a fatal line is written.
+ * - `exit`: exit the process (default)
+ * - `throw`: throw a {@link FatalError} from the logging call
+ * - `log`: only log, for libraries that must not end the process
+ */
+export type FatalMode = "exit" | "throw" | "log";
+
+/** Options for configuring fatal handling. */
+export interface FatalOptions {
+  /** Defaults to "exit". */
+  mode?: FatalMode;
+  /** Exit code used in "exit" mode. Defaults to 1. */
+  exitCode?: number;
+  /**
+   * Functions run (concurrently) before exiting in "exit" mode, e.g. to close
+   * servers or database pools. Failures are ignored.
+   */
+  shutdownHooks?: Array<() => unknown>;
+  /** Milliseconds to wait for shutdown hooks before exiting anyway. Defaults to 5000. */
+  shutdownTimeout?: number;
+}
+
+/** @internal */
+export const FATAL_MODES = ["exit", "throw", "log"] as const;
+
+/** Error thrown by fatal log calls in "throw" mode. */
+export class FatalError extends Error {
+  override name = "FatalError";
+}
+
+/** @internal Run shutdown hooks, resolving once all settle or the timeout passes. */
+export async function runShutdownHooks(
+  hooks: Array<() => unknown>,
+  timeout: number,
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, timeout);
+  });
+  const settled = Promise.allSettled(
+    hooks.map((hook) => Promise.resolve().then(hook)),
+  );
+  await Promise.race([settled, timedOut]);
+  clearTimeout(timer);
+}
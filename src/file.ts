@@ -0,0 +1,202 @@
+import {
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGzip } from "node:zlib";
+import type { WriteStream } from "./sink";
+
+/** Time-based rotation period. */
+export type RotationInterval = "day" | "hour";
+
+/** Options for configuring a rotating file stream. */
+export interface RotatingFileOptions {
+  /** Path of the active log file. Parent directories are created if missing. */
+  path: string;
+  /** Rotate once the active file would exceed this many bytes. */
+  maxSize?: number;
+  /** Rotate when the UTC day or hour changes. */
+  interval?: RotationInterval;
+  /** Number of rotated files to keep. Defaults to 5. */
+  maxFiles?: number;
+  /**
+   * Gzip rotated files (`app.log.1.gz`) in the background. Until a file is
+   * compressed it is kept as `app.log.<time>-<n>.rotating`. Defaults to false.
+   */
+  compress?: boolean;
+}
+
+// A rotated file being gzipped, moved to the `.<index>.gz` slot once done
+interface PendingCompression {
+  index: number;
+  done: Promise<void>;
+}
+
+// Identify the rotation period a date falls into (UTC, matching log timestamps)
+function getPeriodKey(date: Date, interval: RotationInterval): string {
+  const iso = date.toISOString();
+  return interval === "day" ? iso.slice(0, 10) : iso.slice(0, 13);
+}
+
+/**
+ * A file stream that rotates by size and/or time, keeping a bounded number of
+ * old files. Writes are synchronous, so no line is lost or reordered across a
+ * rotation. Rotated files are named `<path>.1` (newest) to `<path>.<maxFiles>`.
+ * Compression runs in the background; {@link close} waits for it.
+ *
+ * @example
+ * ```ts
+ * const file = new RotatingFileStream({
+ *   path: "logs/app.log",
+ *   maxSize: 10 * 1024 * 1024,
+ *   interval: "day",
+ *   compress: true,
+ * });
+ * const logger = new Logger({ stdout: file, stderr: file });
+ * ```
+ */
+export class RotatingFileStream implements WriteStream {
+  private path: string;
+  private maxSize: number | undefined;
+  private interval: RotationInterval | undefined;
+  private maxFiles: number;
+  private compress: boolean;
+  private fd: number | undefined;
+  private size = 0;
+  private periodKey = "";
+  private compressions = new Set<PendingCompression>();
+  private rotations = 0;
+
+  constructor({
+    path,
+    maxSize,
+    interval,
+    maxFiles = 5,
+    compress = false,
+  }: RotatingFileOptions) {
+    if (maxSize !== undefined && !(maxSize > 0)) {
+      throw new Error(`Invalid maxSize: ${maxSize}. Must be a positive number`);
+    }
+    if (!Number.isInteger(maxFiles) || maxFiles < 0) {
+      throw new Error(
+        `Invalid maxFiles: ${maxFiles}. Must be a non-negative integer`,
+      );
+    }
+    this.path = path;
+    this.maxSize = maxSize;
+    this.interval = interval;
+    this.maxFiles = maxFiles;
+    this.compress = compress;
+    mkdirSync(dirname(path), { recursive: true });
+    this.open();
+  }
+
+  private open(): void {
+    this.fd = openSync(this.path, "a");
+    const stats = statSync(this.path);
+    this.size = stats.size;
+    // An existing file belongs to the period it was last written in
+    const since = stats.size > 0 ? stats.mtime : new Date();
+    this.periodKey = this.interval ? getPeriodKey(since, this.interval) : "";
+  }
+
+  private rotatedPath(index: number): string {
+    return `${this.path}.${index}${this.compress ? ".gz" : ""}`;
+  }
+
+  private shouldRotate(bytes: number): boolean {
+    if (this.size === 0) return false;
+    if (this.maxSize !== undefined && this.size + bytes > this.maxSize) {
+      return true;
+    }
+    return (
+      this.interval !== undefined &&
+      getPeriodKey(new Date(), this.interval) !== this.periodKey
+    );
+  }
+
+  /** Rotate the active file now, regardless of size or time. */
+  rotate(): void {
+    if (this.fd !== undefined) {
+      closeSync(this.fd);
+      this.fd = undefined;
+    }
+
+    if (this.maxFiles === 0) {
+      unlinkSync(this.path);
+    } else {
+      const oldest = this.rotatedPath(this.maxFiles);
+      if (existsSync(oldest)) unlinkSync(oldest);
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        const from = this.rotatedPath(i);
+        if (existsSync(from)) renameSync(from, this.rotatedPath(i + 1));
+      }
+      // Files still being compressed shift with the others
+      for (const pending of this.compressions) pending.index++;
+      if (this.compress) {
+        this.compressRotated();
+      } else {
+        renameSync(this.path, this.rotatedPath(1));
+      }
+    }
+
+    this.open();
+  }
+
+  // Only the rename blocks the write; gzip streams the file without holding it in memory
+  private compressRotated(): void {
+    const source = `${this.path}.${Date.now()}-${this.rotations++}.rotating`;
+    const target = `${source}.gz`;
+    renameSync(this.path, source);
+    const pending: PendingCompression = { index: 1, done: Promise.resolve() };
+    pending.done = pipeline(createReadStream(source), createGzip(), createWriteStream(target))
+      .then(() => {
+        unlinkSync(source);
+        if (pending.index > this.maxFiles) unlinkSync(target);
+        else renameSync(target, this.rotatedPath(pending.index));
+      })
+      .catch((error: Error) => {
+        // The uncompressed file stays, so no line is lost
+        if (existsSync(target)) unlinkSync(target);
+        process.stderr.write(`RotatingFileStream: ${error.message}\n`);
+      })
+      .finally(() => {
+        this.compressions.delete(pending);
+      });
+    this.compressions.add(pending);
+  }
+
+  write(chunk: string): boolean {
+    if (this.fd === undefined) {
+      throw new Error(`Cannot write to closed log file: ${this.path}`);
+    }
+    const data = Buffer.from(chunk);
+    if (this.shouldRotate(data.length)) {
+      this.rotate();
+    }
+    writeSync(this.fd!, data);
+    this.size += data.length;
+    return true;
+  }
+
+  /**
+   * Close the active file. Further writes throw. Resolves once rotated
+   * files still being compressed are written.
+   */
+  async close(): Promise<void> {
+    if (this.fd !== undefined) {
+      closeSync(this.fd);
+      this.fd = undefined;
+    }
+    await Promise.all([...this.compressions].map((pending) => pending.done));
+  }
+}
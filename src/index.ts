@@ -1,4 +1,21 @@
 export * from "./logger";
+export * from "./file";
+export * from "./pretty";
+export * from "./query";
+export * from "./syslog";
+export * from "./testing";
 export type * from "./color";
 export type * from "./duration";
 export type * from "./common";
+export type * from "./sink";
+export type * from "./buffer";
+export type * from "./redact";
+export type * from "./levels";
+export type * from "./limit";
+export type * from "./template";
+export type * from "./fatal";
+export type * from "./otel";
+export type * from "./span";
+export type * from "./recorder";
+export type * from "./processor";
+export type * from "./error";
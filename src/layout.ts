@@ -0,0 +1,143 @@
+import { inspect } from "util";
+import { COLORS, LEVEL_COLORS, moduleToTruecolor } from "./color";
+import type { LogContext, LogLevel } from "./common";
+import {
+  THRESHOLD_LEVELS,
+  type TimerLap,
+  type TimerThreshold,
+} from "./duration";
+import {
+  formatErrorMessage,
+  formatNestedError,
+  isSerializedError,
+  SERIALIZED_ERROR_KEYS,
+  type SerializedError,
+} from "./error";
+
+/** @internal Wrap text in a color code when colors are enabled. */
+export function colorize(text: string, color: string, useColor: boolean): string {
+  if (!useColor) return text;
+  return `${color}${text}${COLORS.reset}`;
+}
+
+/** @internal Color for a module tag: a stable truecolor hue, or magenta. */
+export function getModuleColor(module: string, useTruecolor: boolean): string {
+  if (!module) return "";
+  return useTruecolor ? moduleToTruecolor(module) : COLORS.magenta;
+}
+
+// Format a context value compactly, quoting strings that contain whitespace
+function formatContextValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value === "" || /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  }
+  if (value instanceof Error) return formatErrorMessage(value);
+  return inspect(value, { depth: 2, colors: false, breakLength: Infinity });
+}
+
+/** @internal Format context fields as compact `key=value` pairs. */
+export function formatContextPairs(context: LogContext): string {
+  return Object.entries(context)
+    .map(([key, value]) => `${key}=${formatContextValue(value)}`)
+    .join(" ");
+}
+
+/**
+ * @internal Render an error's properties, aggregated errors and cause chain
+ * as indented lines, each cause one level deeper than the previous. Error
+ * properties get a tree of their own:
+ * ```
+ *   code=ECONNREFUSED syscall=connect
+ *   original: TypeError: fetch failed
+ *     code=UND_ERR_SOCKET
+ *   [1/2] Error: connect ECONNREFUSED ::1:5432
+ *     code=ECONNREFUSED
+ *   Caused by: pool exhausted
+ *     Caused by: { retries: 3 }
+ * ```
+ */
+export function formatErrorTree(
+  error: SerializedError,
+  indent: string = "  ",
+): string[] {
+  const lines: string[] = [];
+  const properties: LogContext = {};
+  const errorProperties: Array<[string, SerializedError]> = [];
+  for (const [key, value] of Object.entries(error)) {
+    if (SERIALIZED_ERROR_KEYS.has(key)) continue;
+    if (isSerializedError(value)) errorProperties.push([key, value]);
+    else properties[key] = value;
+  }
+  if (Object.keys(properties).length > 0) {
+    lines.push(`${indent}${formatContextPairs(properties)}`);
+  }
+  for (const [key, nested] of errorProperties) {
+    lines.push(`${indent}${key}: ${formatNestedError(nested)}`);
+    lines.push(...formatErrorTree(nested, `${indent}  `));
+  }
+  const errors = error.errors ?? [];
+  errors.forEach((nested, index) => {
+    lines.push(`${indent}[${index + 1}/${errors.length}] ${formatNestedError(nested)}`);
+    lines.push(...formatErrorTree(nested, `${indent}  `));
+  });
+  let causeIndent = indent;
+  for (const cause of error.causes ?? []) {
+    lines.push(`${causeIndent}Caused by: ${cause.message}`);
+    lines.push(...formatErrorTree({ ...cause, causes: undefined }, `${causeIndent}  `));
+    causeIndent += "  ";
+  }
+  return lines;
+}
+
+/** @internal Parts of the default text line prefix. */
+export interface PrefixParts {
+  timestamp: string;
+  /** Level name; unknown names are shown uncolored unless `levelColor` is set. */
+  level: LogLevel | string;
+  /** Color of the level tag, overriding the built-in level colors. */
+  levelColor?: string;
+  module: string;
+  moduleColor: string;
+  context: LogContext;
+}
+
+/** @internal Build the default text prefix (timestamp + level + module + context). */
+export function formatPrefix(
+  { timestamp, level, levelColor, module, moduleColor, context }: PrefixParts,
+  useColor: boolean,
+): string {
+  const timestampTag = colorize(timestamp, COLORS.dim, useColor);
+  const levelTag = colorize(
+    `[${level.toUpperCase()}]`.padEnd(7),
+    levelColor ?? LEVEL_COLORS[level as LogLevel] ?? "",
+    useColor,
+  );
+  const moduleTag = module
+    ? colorize(`[${module}]`, moduleColor, useColor) + " "
+    : "";
+  const pairs = formatContextPairs(context);
+  const contextTag = pairs ? colorize(pairs, COLORS.dim, useColor) + " " : "";
+  // Fixed spacing: timestamp + 2 spaces + levelTag (padded to 7) + 2 spaces + moduleTag + contextTag + message
+  return `${timestampTag}  ${levelTag}  ${moduleTag}${contextTag}`;
+}
+
+/** @internal Format a timer summary's laps as ` | label +lap (elapsed), ...`. */
+export function formatLapSummary(laps: TimerLap[]): string {
+  if (laps.length === 0) return "";
+  const parts = laps.map((lap) => `${lap.label} +${lap.duration} (${lap.elapsed})`);
+  return ` | ${parts.join(", ")}`;
+}
+
+/** @internal Color of the duration tag, highlighted once a threshold is exceeded. */
+export function getDurationColor(threshold: TimerThreshold | undefined): string {
+  return threshold ? LEVEL_COLORS[THRESHOLD_LEVELS[threshold]] : COLORS.blue;
+}
+
+/** @internal Format the timer duration tag shown before the message. */
+export function formatDurationTag(
+  duration: string,
+  useColor: boolean,
+  threshold?: TimerThreshold,
+): string {
+  return colorize(`[${duration}]`, getDurationColor(threshold), useColor);
+}
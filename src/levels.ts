@@ -0,0 +1,196 @@
+import { LEVEL_COLORS } from "./color";
+import { LEVEL_SEVERITIES, LOG_LEVELS, type LogLevel } from "./common";
+
+/** A custom log level added to a logger alongside the built-in ones. */
+export interface CustomLevel {
+  /**
+   * Numeric severity ordering the level among the built-in ones
+   * (debug 20, info 30, warn 40, error 50, fatal 60). Written to jsonl
+   * records at this level as `severity`.
+   */
+  severity: number;
+  /** ANSI color code for the level tag in "text" output. Defaults to none. */
+  color?: string;
+  /**
+   * Stream the level goes to when output is routed by the `stdout`/`stderr`
+   * options. Defaults to "stderr" from warn severity up, else "stdout".
+   */
+  stream?: "stdout" | "stderr";
+}
+
+/**
+ * Per-module log levels keyed by module glob pattern, either as an object or as
+ * a comma-separated string like `"api:*=debug,db=warn,*=info"`.
+ * `*` matches any sequence of characters. Custom level names are accepted
+ * once a logger defining them exists; loggers without such a level ignore
+ * the pattern.
+ */
+export type ModuleLevels = string | Record<string, string>;
+
+/** @internal Resolved settings of a level known to a logger. */
+export interface LevelInfo {
+  severity: number;
+  color: string;
+  stream: "stdout" | "stderr";
+  /** Records at this level carry serialized errors and stack traces. */
+  errorLike: boolean;
+}
+
+/** @internal Levels known to a logger, built-in and custom, by severity. */
+export type LevelTable = ReadonlyMap<string, LevelInfo>;
+
+interface LevelPattern {
+  regex: RegExp;
+  level: string;
+  specificity: number;
+}
+
+const LEVEL_NAME = /^[a-z][a-zA-Z0-9]*$/;
+
+let patterns: LevelPattern[] = [];
+let version = 0;
+// Custom level names defined by any logger, accepted in module level patterns
+const customLevelNames = new Set<string>();
+
+function toLevelInfo(
+  severity: number,
+  color: string,
+  stream: "stdout" | "stderr" | undefined,
+): LevelInfo {
+  return {
+    severity,
+    color,
+    stream: stream ?? (severity >= LEVEL_SEVERITIES.warn ? "stderr" : "stdout"),
+    errorLike: severity >= LEVEL_SEVERITIES.error,
+  };
+}
+
+/**
+ * @internal Build a logger's level table from its custom levels.
+ * @throws Error if a custom level name, severity or stream is invalid
+ */
+export function createLevelTable(custom: Record<string, CustomLevel>): LevelTable {
+  const entries: Array<[string, LevelInfo]> = LOG_LEVELS.map((level) => [
+    level,
+    toLevelInfo(LEVEL_SEVERITIES[level], LEVEL_COLORS[level], undefined),
+  ]);
+  for (const [name, { severity, color = "", stream }] of Object.entries(custom)) {
+    if (!LEVEL_NAME.test(name) || LOG_LEVELS.includes(name as LogLevel)) {
+      throw new Error(
+        `Invalid custom level name: "${name}". Must be an identifier that is not a built-in level`,
+      );
+    }
+    if (!Number.isFinite(severity)) {
+      throw new Error(
+        `Invalid severity for level "${name}": ${severity}. Must be a finite number`,
+      );
+    }
+    if (stream !== undefined && stream !== "stdout" && stream !== "stderr") {
+      throw new Error(
+        `Invalid stream for level "${name}": "${stream}". Valid streams: stdout, stderr`,
+      );
+    }
+    entries.push([name, toLevelInfo(severity, color, stream)]);
+    customLevelNames.add(name);
+  }
+  entries.sort(([, a], [, b]) => a.severity - b.severity);
+  return new Map(entries);
+}
+
+/** @internal Convert a module glob (`*` matches anything) to an anchored RegExp. */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+function compilePattern(
+  pattern: string,
+  level: string,
+  strict: boolean,
+): LevelPattern {
+  const known = LOG_LEVELS.includes(level as LogLevel) || customLevelNames.has(level);
+  if (strict ? !known : !LEVEL_NAME.test(level)) {
+    throw new Error(
+      `Invalid log level: "${level}". Valid levels: ${[...LOG_LEVELS, ...customLevelNames].join(", ")}`,
+    );
+  }
+  const literalLength = pattern.replaceAll("*", "").length;
+  return {
+    regex: globToRegExp(pattern),
+    level,
+    // Exact names always beat globs; longer literal parts beat shorter ones
+    specificity: pattern.includes("*") ? literalLength : Infinity,
+  };
+}
+
+// Split "pattern=level" entries of a comma-separated string
+function splitModuleLevels(levels: string): Array<readonly [string, string]> {
+  return levels
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.lastIndexOf("=");
+      if (separator === -1) {
+        throw new Error(
+          `Invalid module level entry: "${entry}". Expected "pattern=level"`,
+        );
+      }
+      return [
+        entry.slice(0, separator).trim(),
+        entry.slice(separator + 1).trim(),
+      ] as const;
+    });
+}
+
+function parseModuleLevels(levels: ModuleLevels, strict: boolean): LevelPattern[] {
+  const entries =
+    typeof levels === "string" ? splitModuleLevels(levels) : Object.entries(levels);
+  return entries.map(([pattern, level]) => compilePattern(pattern, level, strict));
+}
+
+// Like parseModuleLevels, but a bad entry is skipped with a warning on stderr
+// rather than thrown: a typo in the environment must not stop the process
+function parseEnvModuleLevels(levels: string): LevelPattern[] {
+  const parsed: LevelPattern[] = [];
+  for (const entry of levels.split(",")) {
+    try {
+      parsed.push(...parseModuleLevels(entry, false));
+    } catch (error) {
+      process.stderr.write(`LOG_LEVELS: ${(error as Error).message}; ignored\n`);
+    }
+  }
+  return parsed;
+}
+
+/** @internal Replace the active module level patterns. */
+export function setModuleLevels(levels: ModuleLevels): void {
+  patterns = parseModuleLevels(levels, true);
+  version++;
+}
+
+/** @internal Counter bumped whenever the patterns change, for caching. */
+export function getModuleLevelsVersion(): number {
+  return version;
+}
+
+/** @internal Find the level of the most specific pattern matching a module. */
+export function resolveModuleLevel(module: string): string | undefined {
+  let best: LevelPattern | undefined;
+  for (const candidate of patterns) {
+    if (!candidate.regex.test(module)) continue;
+    if (!best || candidate.specificity >= best.specificity) {
+      best = candidate;
+    }
+  }
+  return best?.level;
+}
+
+// Custom levels are not defined yet at import time, so only the syntax is checked
+const envLevels = process.env["LOG_LEVELS"];
+if (envLevels) {
+  patterns = parseEnvModuleLevels(envLevels);
+}
@@ -0,0 +1,160 @@
+import type { LogLevel } from "./common";
+
+/** Caps how many lines a logger writes per time window. */
+export interface RateLimitOptions<L extends string = never> {
+  /** Maximum lines written per window. */
+  limit: number;
+  /** Window length in milliseconds. Defaults to 1000. */
+  windowMs?: number;
+  /** Levels the limit applies to. Defaults to all levels; fatal is never suppressed. */
+  levels?: Array<LogLevel | L>;
+  /** Count each distinct message separately instead of the logger as a whole. Defaults to false. */
+  perMessage?: boolean;
+}
+
+/** Probability (0-1) of writing a line, for all levels or per level. */
+export type SampleRate<L extends string = never> =
+  | number
+  | Partial<Record<LogLevel | L, number>>;
+
+/** @internal Reports lines suppressed during a window that just ended. */
+export type SuppressionReporter = (
+  level: string,
+  suppressed: number,
+  rule: Required<Omit<RateLimitOptions<string>, "levels">>,
+  key: string | undefined,
+) => void;
+
+interface Bucket {
+  windowStart: number;
+  count: number;
+  suppressed: number;
+  level: string;
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+interface Rule {
+  limit: number;
+  windowMs: number;
+  // undefined applies the rule to every level
+  levels: string[] | undefined;
+  perMessage: boolean;
+  buckets: Map<string, Bucket>;
+}
+
+// Prune idle per-message buckets once a rule tracks this many keys
+const MAX_IDLE_BUCKETS = 1000;
+
+/** @internal Validate a sample rate setting. */
+export function validateSampleRate(sampleRate: SampleRate<string>): void {
+  const rates =
+    typeof sampleRate === "number" ? [sampleRate] : Object.values(sampleRate);
+  for (const rate of rates) {
+    if (!(rate !== undefined && rate >= 0 && rate <= 1)) {
+      throw new Error(`Invalid sample rate: ${rate}. Must be between 0 and 1`);
+    }
+  }
+}
+
+/** @internal Look up the sample rate for a level (1 when unsampled). */
+export function getSampleRate(
+  sampleRate: SampleRate<string> | undefined,
+  level: string,
+): number {
+  if (sampleRate === undefined) return 1;
+  if (typeof sampleRate === "number") return sampleRate;
+  return sampleRate[level] ?? 1;
+}
+
+/**
+ * @internal Fixed-window rate limiter. Once a window with suppressed lines
+ * ends, the reporter is called exactly once with the suppressed count.
+ */
+export class RateLimiter {
+  private rules: Rule[];
+  private report: SuppressionReporter;
+
+  constructor(options: RateLimitOptions<string>[], report: SuppressionReporter) {
+    this.rules = options.map(
+      ({ limit, windowMs = 1000, levels, perMessage = false }) => {
+        if (!Number.isInteger(limit) || limit < 0) {
+          throw new Error(
+            `Invalid rate limit: ${limit}. Must be a non-negative integer`,
+          );
+        }
+        if (!(windowMs > 0)) {
+          throw new Error(
+            `Invalid rate limit window: ${windowMs}. Must be a positive number`,
+          );
+        }
+        return { limit, windowMs, levels, perMessage, buckets: new Map() };
+      },
+    );
+    this.report = report;
+  }
+
+  /** Record a log call and decide whether it may be written. */
+  allow(level: string, key: string): boolean {
+    if (level === "fatal") return true;
+    const now = Date.now();
+    let allowed = true;
+    for (const rule of this.rules) {
+      if (rule.levels && !rule.levels.includes(level)) continue;
+      const bucketKey = rule.perMessage ? key : "";
+      let bucket = rule.buckets.get(bucketKey);
+      if (!bucket) {
+        this.pruneBuckets(rule, now);
+        bucket = { windowStart: now, count: 0, suppressed: 0, level, timer: undefined };
+        rule.buckets.set(bucketKey, bucket);
+      }
+      if (now - bucket.windowStart >= rule.windowMs) {
+        this.endWindow(rule, bucketKey, bucket);
+        bucket.windowStart = now;
+        bucket.count = 0;
+      }
+      if (bucket.count >= rule.limit) {
+        bucket.suppressed++;
+        bucket.level = level;
+        if (bucket.timer === undefined) {
+          const remaining = bucket.windowStart + rule.windowMs - now;
+          const pending = bucket;
+          bucket.timer = setTimeout(
+            () => this.endWindow(rule, bucketKey, pending),
+            remaining,
+          );
+          // Never keep the process alive just to report a summary
+          bucket.timer.unref?.();
+        }
+        allowed = false;
+      } else {
+        bucket.count++;
+      }
+    }
+    return allowed;
+  }
+
+  private endWindow(rule: Rule, key: string, bucket: Bucket): void {
+    if (bucket.timer !== undefined) {
+      clearTimeout(bucket.timer);
+      bucket.timer = undefined;
+    }
+    if (bucket.suppressed === 0) return;
+    const suppressed = bucket.suppressed;
+    bucket.suppressed = 0;
+    this.report(
+      bucket.level,
+      suppressed,
+      { limit: rule.limit, windowMs: rule.windowMs, perMessage: rule.perMessage },
+      rule.perMessage ? key : undefined,
+    );
+  }
+
+  private pruneBuckets(rule: Rule, now: number): void {
+    if (rule.buckets.size < MAX_IDLE_BUCKETS) return;
+    for (const [key, bucket] of rule.buckets) {
+      if (bucket.suppressed === 0 && now - bucket.windowStart >= rule.windowMs) {
+        rule.buckets.delete(key);
+      }
+    }
+  }
+}
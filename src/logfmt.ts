@@ -0,0 +1,67 @@
+// Record keys renamed to their conventional logfmt names
+const KEY_ALIASES: Record<string, string> = {
+  timestamp: "ts",
+  message: "msg",
+};
+
+// Leading keys, in the conventional logfmt order
+const LEADING_KEYS = ["timestamp", "level", "module", "message"];
+
+// Keys may not contain whitespace, quotes or "="
+function formatKey(key: string): string {
+  return key.replace(/[\s"=]/g, "_") || "_";
+}
+
+// Quote values that would otherwise break the key=value tokenization
+function formatLogfmtValue(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  const str = String(value);
+  if (str !== "" && !/[\s"=\\]/.test(str) && !/[\u0000-\u001f]/.test(str)) {
+    return str;
+  }
+  const escaped = str
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+  return `"${escaped}"`;
+}
+
+// Flatten nested objects and arrays into dotted key paths
+function flatten(
+  value: unknown,
+  key: string,
+  pairs: Array<[string, unknown]>,
+): void {
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      pairs.push([key, Array.isArray(value) ? "[]" : "{}"]);
+      return;
+    }
+    for (const [childKey, childValue] of entries) {
+      flatten(childValue, `${key}.${childKey}`, pairs);
+    }
+    return;
+  }
+  pairs.push([key, value]);
+}
+
+/**
+ * @internal Format a JSON-safe record as a logfmt line, e.g.
+ * `ts=2024-01-01T00:00:00.000Z level=info module=api msg="Server started" args.0.port=3000`.
+ */
+export function formatLogfmt(record: Record<string, unknown>): string {
+  const pairs: Array<[string, unknown]> = [];
+  const keys = [
+    ...LEADING_KEYS.filter((key) => key in record),
+    ...Object.keys(record).filter((key) => !LEADING_KEYS.includes(key)),
+  ];
+  for (const key of keys) {
+    flatten(record[key], KEY_ALIASES[key] ?? key, pairs);
+  }
+  return pairs
+    .map(([key, value]) => `${formatKey(key)}=${formatLogfmtValue(value)}`)
+    .join(" ");
+}
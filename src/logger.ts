@@ -1,51 +1,161 @@
 import { inspect } from "util";
-import { COLORS, LEVEL_COLORS, moduleToTruecolor } from "./color";
+import { COLORS } from "./color";
 import {
   formatDuration,
   type TimerFormat,
+  THRESHOLD_LEVELS,
+  type TimeOptions,
+  type TimerLap,
   type TimerOptions,
+  type TimerThreshold,
 } from "./duration";
-import { LOG_LEVELS, type ILogger, type ITimer, type LogLevel } from "./common";
+import type {
+  BaseLogger,
+  BaseTimer,
+  ILogger,
+  ITimer,
+  LevelMethods,
+  LogContext,
+  LogLevel,
+} from "./common";
 import { createNullWriteStream } from "./null";
-
-/** Minimal writable stream interface (compatible with NodeJS.WriteStream). */
-export interface WriteStream {
-  write(chunk: string): unknown;
+import { formatErrorMessage, serializeError } from "./error";
+import {
+  FATAL_MODES,
+  FatalError,
+  runShutdownHooks,
+  type FatalMode,
+  type FatalOptions,
+} from "./fatal";
+import {
+  colorize,
+  formatContextPairs,
+  formatDurationTag,
+  formatErrorTree,
+  formatLapSummary,
+  formatPrefix,
+  getModuleColor,
+} from "./layout";
+import { getAmbientContext, runWithContext } from "./context";
+import { BufferedStream, type BufferOptions } from "./buffer";
+import {
+  createLevelTable,
+  getModuleLevelsVersion,
+  resolveModuleLevel,
+  setModuleLevels,
+  type CustomLevel,
+  type LevelTable,
+  type ModuleLevels,
+} from "./levels";
+import {
+  RateLimiter,
+  getSampleRate,
+  validateSampleRate,
+  type RateLimitOptions,
+  type SampleRate,
+} from "./limit";
+import { formatLogfmt } from "./logfmt";
+import { runProcessors, type LogProcessor } from "./processor";
+import { FlightRecorder, type FlightRecorderOptions } from "./recorder";
+import { createSpanId, renderSpanTree, type SpanNode } from "./span";
+import {
+  formatSyslog,
+  getSyslogFacilityCode,
+  getSyslogSeverity,
+  type SyslogOptions,
+} from "./syslog";
+import {
+  formatOtelRecord,
+  getOtelSeverityNumber,
+  type OtelResource,
+  type TraceContextProvider,
+} from "./otel";
+import { interpolate } from "./printf";
+import {
+  compileTemplate,
+  type TextFormatHelpers,
+  type TextFormatter,
+  type TextLogRecord,
+} from "./template";
+import { createRedactor, type RedactOptions, type Redactor } from "./redact";
+import {
+  OUTPUT_FORMATS,
+  closeStream,
+  createDefaultSinks,
+  sinkAccepts,
+  type LogSink,
+  type LoggerOutputFormat,
+  type WriteStream,
+} from "./sink";
+
+export type { LoggerOutputFormat, WriteStream } from "./sink";
+export { FatalError } from "./fatal";
+
+interface SpanFields {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  event?: "start" | "end";
 }
 
-// Stream routing: debug/info -> stdout, warn/error/fatal -> stderr
-const STDOUT_LEVELS: LogLevel[] = ["debug", "info"];
-const OUTPUT_FORMATS = ["text", "jsonl"] as const;
-
-export type LoggerOutputFormat = (typeof OUTPUT_FORMATS)[number];
-
 interface JsonLogContext {
   duration?: string;
   durationMs?: number;
+  suppressed?: number;
+  sampleRate?: number;
+  msgTemplate?: string;
+  // Errors consumed by message placeholders, still written with their details
+  interpolatedErrors?: Error[];
+  laps?: TimerLap[];
+  thresholdExceeded?: TimerThreshold;
+  thresholdMs?: number;
+  span?: SpanFields;
+  traceId?: string;
+  spanId?: string;
+  traceFlags?: number;
+  // Fields resolved before writing (flight-recorded or processed), else the effective context
+  fields?: LogContext;
+  // Time a flight-recorded call was made
+  recordedAt?: Date;
+}
+
+// Error objects of a record: the message, args consumed by placeholders, then the other args
+function getRecordErrors(
+  message: unknown,
+  args: unknown[],
+  context: JsonLogContext | undefined,
+): Error[] {
+  return [message, ...(context?.interpolatedErrors ?? []), ...args].filter(
+    (value): value is Error => value instanceof Error,
+  );
 }
 
-// Extract error message from an Error object
-function formatErrorMessage(error: Error): string {
-  // Check explicitly for empty string since it's falsy but valid
-  if (error.message !== undefined && error.message !== "") {
-    return error.message;
+// Attach a method per custom level that logs at that level
+function defineLevelMethods(
+  target: object,
+  names: string[],
+  log: (level: string, message: unknown, args: unknown[]) => void,
+): void {
+  for (const name of names) {
+    if (name in target) {
+      throw new Error(
+        `Invalid custom level name: "${name}". It clashes with a ${target.constructor.name} member`,
+      );
+    }
+    Object.defineProperty(target, name, {
+      value: (message: unknown, ...args: unknown[]) => log(name, message, args),
+      configurable: true,
+      writable: true,
+    });
   }
-  // Fallback to error name (e.g., "TypeError", "RangeError")
-  return error.name || "Error";
 }
 
-// Get the cause chain from an error (with circular reference protection)
-function getErrorCauses(error: Error): Error[] {
-  const causes: Error[] = [];
-  const seen = new Set<Error>([error]);
-  let current = error.cause;
-  while (current instanceof Error) {
-    if (seen.has(current)) break; // Circular reference detected
-    seen.add(current);
-    causes.push(current);
-    current = current.cause;
-  }
-  return causes;
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
 }
 
 // Capture native stack trace
@@ -58,21 +168,59 @@ function captureNativeStack(): string {
 }
 
 /** Configuration options for creating a Logger instance. */
-export interface LoggerOptions {
-  /** Minimum log level to output. Defaults to "info". */
-  logLevel?: LogLevel;
+export interface LoggerOptions<L extends string = never> {
+  /**
+   * Minimum log level to output. Defaults to "info".
+   * A matching pattern set via {@link Logger.setModuleLevels} (or the
+   * `LOG_LEVELS` environment variable) takes precedence.
+   */
+  logLevel?: NoInfer<LogLevel | L>;
+  /**
+   * Custom levels added to the built-in ones, keyed by name, each with a
+   * numeric severity (debug 20, info 30, warn 40, error 50, fatal 60), an
+   * optional color and the stream it is routed to. Each level gets a log
+   * method named after it; create the logger with {@link Logger.create} to
+   * have those methods typed. Levels from error severity up carry error
+   * details and stack traces. Child loggers and timers inherit the levels.
+   *
+   * @example
+   * ```ts
+   * const logger = Logger.create({
+   *   logLevel: "trace",
+   *   levels: {
+   *     trace: { severity: 10, color: "\x1b[2m" },
+   *     notice: { severity: 35, stream: "stderr" },
+   *   },
+   * });
+   * logger.trace("frame", bytes);
+   * ```
+   */
+  levels?: Record<L, CustomLevel>;
   /** Module name shown in log prefix. */
   module?: string;
+  /**
+   * Structured fields attached to every record.
+   * Emitted as top-level keys in "jsonl" output and as `key=value` pairs after
+   * the module tag in "text" output.
+   */
+  context?: LogContext;
   /**
    * Output format for each log line.
    * - "text": human-readable output with colors and prefixes
    * - "jsonl": newline-delimited JSON records for log ingestion
+   * - "logfmt": `key=value` lines with the same fields as "jsonl", nested
+   *   values flattened to dotted keys (`ts`, `level`, `module`, `msg`, ...)
+   * - "otel": JSON records following the OpenTelemetry log data model
+   *   (`Timestamp`, `SeverityNumber`, `SeverityText`, `Body`, `Attributes`,
+   *   `Resource`, `TraceId`, `SpanId`), for forwarding to an OTel collector
+   * - "syslog": RFC 5424 lines with context fields as structured data (see
+   *   {@link LoggerOptions.syslog} and {@link SyslogStream})
    *
    * Defaults to "text".
    */
   outputFormat?: LoggerOutputFormat;
   /**
-   * Stream routing behavior for "jsonl" output.
+   * Stream routing behavior for "jsonl" and "otel" output.
    *
    * Defaults to false, which writes all levels to stdout as one unified stream.
    * Set to true to keep split routing (debug/info -> stdout, warn/error/fatal -> stderr).
@@ -88,6 +236,140 @@ export interface LoggerOptions {
    * In jsonl mode this is used only when jsonlSplitStreams is true.
    */
   stderr?: WriteStream;
+  /**
+   * Destinations for log lines, each with its own level range and format.
+   * When set, `outputFormat`, `jsonlSplitStreams`, `stdout` and `stderr` are ignored.
+   * `logLevel` still applies to every sink.
+   *
+   * @example
+   * ```ts
+   * new Logger({
+   *   logLevel: "debug",
+   *   sinks: [
+   *     { stream: process.stdout, level: "info" },
+   *     { stream: file, format: "jsonl", color: false },
+   *   ],
+   * });
+   * ```
+   */
+  sinks?: NoInfer<LogSink<L>>[];
+  /**
+   * Queue lines and write them to each stream in batches, honoring backpressure.
+   * Call {@link Logger.flush} or {@link Logger.close} before shutdown to make
+   * sure every line has been written. Defaults to false (synchronous writes).
+   */
+  buffered?: boolean | BufferOptions;
+  /**
+   * Censor sensitive values in the message, args, context fields and errors
+   * before they are formatted, in every output format.
+   *
+   * @example
+   * ```ts
+   * new Logger({
+   *   redact: {
+   *     paths: ["password", "headers.authorization", "*.token"],
+   *     patterns: [/Bearer [\w.-]+/],
+   *   },
+   * });
+   * ```
+   */
+  redact?: RedactOptions;
+  /**
+   * Cap how many lines are written per time window. When a window with
+   * suppressed lines ends, a single summary line is written at the level of
+   * the last suppressed line (with a `suppressed` count field in jsonl).
+   * Child loggers share their parent's limits.
+   *
+   * @example
+   * ```ts
+   * new Logger({ module: "poller", rateLimit: { limit: 10, levels: ["warn"] } });
+   * ```
+   */
+  rateLimit?: NoInfer<RateLimitOptions<L> | RateLimitOptions<L>[]>;
+  /**
+   * Probability (0-1) of writing each line, for all levels or per level.
+   * Sampled jsonl records carry a `sampleRate` field so counts can be scaled back up.
+   */
+  sampleRate?: NoInfer<SampleRate<L>>;
+  /**
+   * Custom layout for "text" output, replacing the default
+   * `timestamp  [LEVEL]  [module] context message` line.
+   * Either a template string with `{timestamp}`, `{time}`, `{level}`,
+   * `{levelShort}`, `{module}`, `{context}`, `{duration}` and `{message}`
+   * placeholders, or a function receiving the structured record and
+   * colorization helpers that honor the sink's color setting.
+   *
+   * @example
+   * ```ts
+   * // journald already adds timestamps
+   * new Logger({ textFormat: "{module} {levelShort} {context} {duration} {message}" });
+   * ```
+   */
+  textFormat?: string | TextFormatter;
+  /**
+   * What a fatal log call does after writing its line: exit the process
+   * (optionally after running shutdown hooks), throw a {@link FatalError},
+   * or only log. Buffered output is written out first. Defaults to "exit"
+   * with exit code 1.
+   *
+   * @example
+   * ```ts
+   * new Logger({ fatal: { exitCode: 2, shutdownHooks: [() => server.close()] } });
+   * new Logger({ fatal: "log" }); // libraries
+   * ```
+   */
+  fatal?: FatalMode | FatalOptions;
+  /**
+   * Supplies the active trace context, called for every record. "jsonl" and
+   * "logfmt" records get `traceId`, `spanId` and `traceFlags` fields; "otel"
+   * records get `TraceId`, `SpanId` and `TraceFlags`.
+   *
+   * @example
+   * ```ts
+   * import { trace } from "@opentelemetry/api";
+   * new Logger({ traceContext: () => trace.getActiveSpan()?.spanContext() });
+   * ```
+   */
+  traceContext?: TraceContextProvider;
+  /** Resource attributes of "otel" records, e.g. `{ "service.name": "api" }`. */
+  resource?: OtelResource;
+  /** Facility and header fields of "syslog" output. */
+  syslog?: SyslogOptions;
+  /**
+   * Keep recent log calls of every level in memory, including those below
+   * the log level, and write the ones not written yet just before a line at
+   * the trigger level (or on {@link Logger.dump}). Replayed lines keep their
+   * original timestamp and fields; jsonl records carry `recorded: true`.
+   * Calls dropped by `sampleRate` or `rateLimit` are never replayed, and
+   * sink levels still apply. Child loggers share their parent's recorder;
+   * the "module" and "context" scopes share buffers across all loggers.
+   * `true` uses the defaults.
+   *
+   * @example
+   * ```ts
+   * // info in production, with the last 200 debug lines of a request on error
+   * new Logger({ flightRecorder: { size: 200, scope: "context" } });
+   * ```
+   */
+  flightRecorder?: boolean | NoInfer<FlightRecorderOptions<L>>;
+  /**
+   * Functions run in order on every record that passed level filtering,
+   * before it is formatted for any sink (timer records included). Each can
+   * add fields, rewrite the message or args, change the level, or return
+   * null to drop the record. A processor that throws is skipped and the
+   * record gets a `processorError` field. Child loggers inherit them.
+   *
+   * @example
+   * ```ts
+   * new Logger({
+   *   processors: [
+   *     (record) => ({ ...record, fields: { ...record.fields, sha: GIT_SHA } }),
+   *     (record) => (record.message === "healthcheck" ? null : record),
+   *   ],
+   * });
+   * ```
+   */
+  processors?: NoInfer<LogProcessor<L>>[];
 }
 
 /**
@@ -100,20 +382,86 @@ export interface LoggerOptions {
  * logger.error("Request failed", new Error("timeout"));
  * ```
  */
-export class Logger implements ILogger {
-  private logLevel: LogLevel;
+export class Logger<L extends string = never> implements BaseLogger<L> {
+  /**
+   * Create a logger whose custom level methods are typed, which
+   * `new Logger(...)` can't express.
+   * @example
+   * ```ts
+   * const logger = Logger.create({ levels: { trace: { severity: 10 } } });
+   * logger.trace("raw frame", frame);
+   * ```
+   */
+  static create<L extends string = never>(
+    options?: LoggerOptions<L>,
+  ): Logger<L> & LevelMethods<L> {
+    return new Logger(options) as Logger<L> & LevelMethods<L>;
+  }
+
+  /**
+   * Run a function with fields attached to every log call made inside it,
+   * including across `await` boundaries and from other Logger instances.
+   * Fields bound via {@link child} override ambient fields with the same key.
+   * @example
+   * ```ts
+   * await Logger.runWithContext({ requestId: "abc123" }, async () => {
+   *   await handleRequest(); // all logs inside carry requestId=abc123
+   * });
+   * ```
+   */
+  static runWithContext<T>(fields: LogContext, fn: () => T): T {
+    return runWithContext(fields, fn);
+  }
+
+  /**
+   * Set log levels per module using glob patterns, replacing any previous set.
+   * Applies to existing loggers too; the most specific matching pattern wins
+   * over each logger's own `logLevel`. Initialized from the `LOG_LEVELS`
+   * environment variable when present, skipping invalid entries there with a
+   * warning on stderr.
+   * @example
+   * ```ts
+   * Logger.setModuleLevels("api:*=debug,db=warn,*=info");
+   * Logger.setModuleLevels({ "api:*": "debug" });
+   * Logger.setModuleLevels(""); // clear
+   * ```
+   * @throws Error if a level is invalid
+   */
+  static setModuleLevels(levels: ModuleLevels): void {
+    setModuleLevels(levels);
+  }
+
+  // Unset on children until their own setLogLevel; they follow the parent's level
+  private logLevel: LogLevel | L | undefined;
+  private parent: Logger<L> | undefined;
+  private levels: LevelTable;
+  private customLevels: Record<L, CustomLevel>;
   private module: string;
+  private context: LogContext;
   private useColor: boolean;
   private useTruecolor: boolean;
   private moduleColor: string;
-  private stdout: WriteStream;
-  private stderr: WriteStream;
-  private outputFormat: LoggerOutputFormat;
-  private jsonlSplitStreams: boolean;
+  private sinks: LogSink<L>[];
+  private redactOptions: RedactOptions | undefined;
+  private redactor: Redactor | undefined;
+  private rateLimiter: RateLimiter | undefined;
+  private sampleRate: SampleRate<L> | undefined;
+  private textFormat: string | TextFormatter | undefined;
+  private textFormatter: TextFormatter | undefined;
+  private fatalOptions: FatalOptions;
+  private traceContext: TraceContextProvider | undefined;
+  private resource: OtelResource | undefined;
+  private syslogOptions: SyslogOptions;
+  private flightRecorder: FlightRecorder | undefined;
+  private processors: LogProcessor<L>[];
+  private shuttingDown = false;
+  private resolvedLevel: { version: number; level: string | undefined } | undefined;
 
   constructor({
     logLevel = "info",
+    levels = {} as Record<L, CustomLevel>,
     module = "",
+    context = {},
     outputFormat = "text",
     jsonlSplitStreams = false,
     stdout = process.env.NODE_ENV === "test"
@@ -122,26 +470,139 @@ export class Logger implements ILogger {
     stderr = process.env.NODE_ENV === "test"
       ? createNullWriteStream()
       : process.stderr,
-  }: LoggerOptions = {}) {
-    if (!LOG_LEVELS.includes(logLevel)) {
+    sinks = createDefaultSinks(outputFormat, jsonlSplitStreams, stdout, stderr),
+    buffered = false,
+    redact,
+    rateLimit,
+    sampleRate,
+    textFormat,
+    fatal = "exit",
+    traceContext,
+    resource,
+    syslog = {},
+    flightRecorder = false,
+    processors = [],
+  }: LoggerOptions<L> = {}) {
+    this.levels = createLevelTable(levels);
+    this.customLevels = levels;
+    this.validateLevel(logLevel);
+    for (const sink of sinks) {
+      const format = sink.format ?? "text";
+      if (!OUTPUT_FORMATS.includes(format)) {
+        throw new Error(
+          `Invalid output format: "${format}". Valid formats: ${OUTPUT_FORMATS.join(", ")}`,
+        );
+      }
+      for (const level of [sink.level, sink.maxLevel]) {
+        if (level !== undefined) this.validateLevel(level);
+      }
+    }
+    this.logLevel = logLevel;
+    this.module = module;
+    this.context = { ...context };
+    this.sinks = buffered
+      ? this.wrapBufferedSinks(sinks, buffered === true ? {} : buffered)
+      : [...sinks];
+    this.redactOptions = redact;
+    this.redactor = redact ? createRedactor(redact) : undefined;
+    this.fatalOptions = typeof fatal === "string" ? { mode: fatal } : fatal;
+    const fatalMode = this.fatalOptions.mode ?? "exit";
+    if (!FATAL_MODES.includes(fatalMode)) {
       throw new Error(
-        `Invalid log level: "${logLevel}". Valid levels: ${LOG_LEVELS.join(", ")}`,
+        `Invalid fatal mode: "${fatalMode}". Valid modes: ${FATAL_MODES.join(", ")}`,
       );
     }
-    if (!OUTPUT_FORMATS.includes(outputFormat)) {
-      throw new Error(
-        `Invalid output format: "${outputFormat}". Valid formats: ${OUTPUT_FORMATS.join(", ")}`,
+    this.traceContext = traceContext;
+    this.resource = resource;
+    if (syslog.facility !== undefined) getSyslogFacilityCode(syslog.facility);
+    this.syslogOptions = syslog;
+    this.processors = [...processors];
+    if (flightRecorder) {
+      this.flightRecorder = new FlightRecorder(
+        flightRecorder === true ? {} : flightRecorder,
       );
+      this.validateLevel(this.flightRecorder.triggerLevel);
     }
-    this.logLevel = logLevel;
-    this.module = module;
-    this.outputFormat = outputFormat;
-    this.jsonlSplitStreams = jsonlSplitStreams;
-    this.stdout = stdout;
-    this.stderr = stderr;
+    this.textFormat = textFormat;
+    this.textFormatter =
+      typeof textFormat === "string" ? compileTemplate(textFormat) : textFormat;
+    if (sampleRate !== undefined) validateSampleRate(sampleRate);
+    this.sampleRate = sampleRate;
+    this.rateLimiter = rateLimit
+      ? new RateLimiter(
+          Array.isArray(rateLimit) ? rateLimit : [rateLimit],
+          (level, suppressed, rule, key) => {
+            const scope = key === undefined ? "" : ` matching "${key}"`;
+            this.writeRecord(
+              level,
+              `Suppressed ${suppressed} log lines${scope} (limit ${rule.limit} per ${rule.windowMs}ms)`,
+              [],
+              { suppressed },
+            );
+          },
+        )
+      : undefined;
     this.useColor = this.detectColorSupport();
     this.useTruecolor = this.detectTruecolorSupport();
     this.moduleColor = this.computeModuleColor();
+    const names = Object.keys(levels);
+    for (const name of names) {
+      if (name in Timer.prototype) {
+        throw new Error(
+          `Invalid custom level name: "${name}". It clashes with a Timer member`,
+        );
+      }
+    }
+    defineLevelMethods(this, names, (level, message, args) =>
+      this.logInternal(level, message, args),
+    );
+  }
+
+  // @throws Error if the level is neither built-in nor one of this logger's custom levels
+  private validateLevel(level: string): void {
+    if (!this.levels.has(level)) {
+      throw new Error(
+        `Invalid log level: "${level}". Valid levels: ${[...this.levels.keys()].join(", ")}`,
+      );
+    }
+  }
+
+  // Wrap each distinct stream once so sinks sharing a stream keep line order
+  private wrapBufferedSinks(
+    sinks: LogSink<L>[],
+    options: BufferOptions,
+  ): LogSink<L>[] {
+    const wrapped = new Map<WriteStream, BufferedStream>();
+    return sinks.map((sink) => {
+      let stream = wrapped.get(sink.stream);
+      if (!stream) {
+        stream = new BufferedStream(sink.stream, options);
+        wrapped.set(sink.stream, stream);
+      }
+      return { ...sink, stream };
+    });
+  }
+
+  // Module level pattern match (cached until the patterns change), else own level.
+  // Patterns naming a custom level this logger lacks are ignored.
+  private getEffectiveLevel(): string {
+    const version = getModuleLevelsVersion();
+    if (this.resolvedLevel?.version !== version) {
+      const level = resolveModuleLevel(this.module);
+      this.resolvedLevel = {
+        version,
+        level: level !== undefined && this.levels.has(level) ? level : undefined,
+      };
+    }
+    return this.resolvedLevel.level ?? this.getOwnLevel();
+  }
+
+  private getOwnLevel(): LogLevel | L {
+    return this.logLevel ?? this.parent!.getOwnLevel();
+  }
+
+  private getStreams(): WriteStream[] {
+    return [...new Set(this.sinks.map((sink) => sink.stream))];
   }
 
   private detectColorSupport(): boolean {
@@ -152,87 +613,66 @@ export class Logger implements ILogger {
   }
 
   private detectTruecolorSupport(): boolean {
-    if (!this.useColor) return false;
     const colorterm = process.env["COLORTERM"];
     return colorterm === "truecolor" || colorterm === "24bit";
   }
 
   private computeModuleColor(): string {
-    if (!this.module) return "";
-    return this.useTruecolor ? moduleToTruecolor(this.module) : COLORS.magenta;
-  }
-
-  private colorize(text: string, color: string): string {
-    if (!this.useColor) return text;
-    return `${color}${text}${COLORS.reset}`;
+    return getModuleColor(this.module, this.useTruecolor);
   }
 
   // Format a value for logging, avoiding [object Object]
-  private formatValue(value: unknown): string {
+  private formatValue(value: unknown, useColor: boolean): string {
     if (typeof value === "string") return value;
     if (value instanceof Error) return formatErrorMessage(value);
-    return inspect(value, { depth: 10, colors: this.useColor });
+    return inspect(value, { depth: 10, colors: useColor });
   }
 
   // Format all args into a single string
-  private formatArgs(args: any[]): string {
+  private formatArgs(args: any[], useColor: boolean): string {
     if (args.length === 0) return "";
-    return " " + args.map((arg) => this.formatValue(arg)).join(" ");
+    return " " + args.map((arg) => this.formatValue(arg, useColor)).join(" ");
   }
 
-  // Build the log prefix (timestamp + level + module)
-  private buildPrefix(level: LogLevel): string {
-    const timestamp = this.colorize(new Date().toISOString(), COLORS.dim);
-    const levelTag = this.colorize(
-      `[${level.toUpperCase()}]`.padEnd(7),
-      LEVEL_COLORS[level],
+  // Build the log prefix (timestamp + level + module + context)
+  private buildPrefix(
+    level: string,
+    useColor: boolean,
+    context: JsonLogContext | undefined,
+  ): string {
+    return formatPrefix(
+      {
+        timestamp: this.getRecordTime(context).toISOString(),
+        level,
+        levelColor: this.levels.get(level)!.color,
+        module: this.module,
+        moduleColor: this.moduleColor,
+        context: this.getRecordFields(context),
+      },
+      useColor,
     );
-    const moduleTag = this.module
-      ? this.colorize(`[${this.module}]`, this.moduleColor) + " "
-      : "";
-    // Fixed spacing: timestamp + 2 spaces + levelTag (padded to 7) + 2 spaces + moduleTag + message
-    return `${timestamp}  ${levelTag}  ${moduleTag}`;
-  }
-
-  // Write a line to the appropriate stream
-  private writeLine(level: LogLevel, message: string): void {
-    const useUnifiedJsonStream =
-      this.outputFormat === "jsonl" && !this.jsonlSplitStreams;
-    const stream = useUnifiedJsonStream
-      ? this.stdout
-      : STDOUT_LEVELS.includes(level)
-        ? this.stdout
-        : this.stderr;
-    stream.write(message + "\n");
-  }
-
-  private serializeError(error: Error): Record<string, unknown> {
-    const details: Record<string, unknown> = {
-      name: error.name || "Error",
-      message: formatErrorMessage(error),
-    };
-    if (error.stack) {
-      details["stack"] = error.stack;
-    }
+  }
 
-    const causes = getErrorCauses(error);
-    if (causes.length > 0) {
-      details["causes"] = causes.map((cause) => ({
-        name: cause.name || "Error",
-        message: formatErrorMessage(cause),
-        stack: cause.stack,
-      }));
-    }
+  // Merge ambient async context with fields bound to this logger (bound fields win)
+  private getEffectiveContext(): LogContext {
+    const context = { ...getAmbientContext(), ...this.context };
+    return this.redactor ? (this.redactor(context) as LogContext) : context;
+  }
+
+  // A flight-recorded call keeps the time and fields it was logged with
+  private getRecordTime(context: JsonLogContext | undefined): Date {
+    return context?.recordedAt ?? new Date();
+  }
 
-    return details;
+  private getRecordFields(context: JsonLogContext | undefined): LogContext {
+    return context?.fields ?? this.getEffectiveContext();
   }
 
   private stringifyJsonRecord(record: Record<string, unknown>): string {
-    const recordBuilder = this;
     const ancestors: object[] = [];
     return JSON.stringify(record, function (this: unknown, _key, value: unknown): unknown {
       if (value instanceof Error) {
-        return recordBuilder.serializeError(value);
+        return serializeError(value);
       }
       if (typeof value === "bigint") {
         return value.toString();
@@ -261,20 +701,38 @@ export class Logger implements ILogger {
   }
 
   private buildJsonRecord(
-    level: LogLevel,
+    level: string,
     message: unknown,
     args: unknown[],
-    context?: JsonLogContext,
+    context: JsonLogContext | undefined,
+    nativeStack: string,
   ): Record<string, unknown> {
     const record: Record<string, unknown> = {
-      timestamp: new Date().toISOString(),
+      timestamp: this.getRecordTime(context).toISOString(),
       level,
-      message,
     };
+    // Custom levels carry their severity, so readers such as sml-query can order them
+    if (Object.hasOwn(this.customLevels, level)) {
+      record["severity"] = this.levels.get(level)!.severity;
+    }
+    record["message"] = message;
 
     if (this.module) {
       record["module"] = this.module;
     }
+    if (context?.traceId !== undefined) {
+      record["traceId"] = context.traceId;
+      record["spanId"] = context.spanId;
+      if (context.traceFlags !== undefined) {
+        record["traceFlags"] = context.traceFlags;
+      }
+    }
+    for (const [key, value] of Object.entries(this.getRecordFields(context))) {
+      // Bound fields never override the core record keys
+      if (!(key in record)) {
+        record[key] = value;
+      }
+    }
     if (args.length > 0) {
       record["args"] = args;
     }
@@ -284,115 +742,396 @@ export class Logger implements ILogger {
     if (context?.durationMs !== undefined) {
       record["durationMs"] = context.durationMs;
     }
+    if (context?.suppressed !== undefined) {
+      record["suppressed"] = context.suppressed;
+    }
+    if (context?.sampleRate !== undefined) {
+      record["sampleRate"] = context.sampleRate;
+    }
+    if (context?.msgTemplate !== undefined) {
+      record["msgTemplate"] = context.msgTemplate;
+    }
+    if (context?.recordedAt !== undefined) {
+      record["recorded"] = true;
+    }
+    if (context?.laps !== undefined && context.laps.length > 0) {
+      record["laps"] = context.laps;
+    }
+    if (context?.thresholdExceeded !== undefined) {
+      record["thresholdExceeded"] = context.thresholdExceeded;
+      record["thresholdMs"] = context.thresholdMs;
+    }
+    if (context?.span !== undefined) {
+      // One nested key, so the trace context's spanId and bound fields stay intact
+      const { spanId, parentSpanId, name, event } = context.span;
+      const span: Record<string, unknown> = { spanId };
+      if (parentSpanId !== undefined) span["parentSpanId"] = parentSpanId;
+      span["name"] = name;
+      if (event !== undefined) span["event"] = event;
+      record["span"] = span;
+    }
 
-    if (level === "error" || level === "fatal") {
-      const errors = [message, ...args].filter((v): v is Error => v instanceof Error);
+    if (this.levels.get(level)!.errorLike) {
+      const errors = getRecordErrors(message, args, context);
       if (errors.length > 0) {
-        record["errors"] = errors.map((error) => this.serializeError(error));
+        record["errors"] = errors.map((error) => serializeError(error));
       }
-      record["nativeStack"] = captureNativeStack();
+      record["nativeStack"] = nativeStack;
     }
 
     return record;
   }
 
-  // Log error cause chain as separate lines
-  private logCauseChain(level: LogLevel, error: Error): void {
-    const causes = getErrorCauses(error);
-    const prefix = this.buildPrefix(level);
-    for (const cause of causes) {
-      this.writeLine(
+
+  // Format stack trace lines
+  private formatStack(stack: string, indent: string = ""): string[] {
+    const lines = stack.split("\n").filter((line) => line.trim());
+    return lines.map((line) => `${indent}${line}`);
+  }
+
+  private createTextFormatHelpers(
+    level: string,
+    useColor: boolean,
+  ): TextFormatHelpers {
+    return {
+      useColor,
+      colorize: (text, color) => colorize(text, color, useColor),
+      colors: COLORS,
+      levelColor: this.levels.get(level)!.color,
+      moduleColor: this.moduleColor,
+      formatContext: formatContextPairs,
+    };
+  }
+
+  // Format a record as human-readable lines (message line plus error details)
+  private formatTextLines(
+    level: string,
+    message: unknown,
+    args: unknown[],
+    context: JsonLogContext | undefined,
+    nativeStack: string,
+    useColor: boolean,
+  ): string[] {
+    const text =
+      this.formatValue(message, useColor) +
+      this.formatArgs(args, useColor) +
+      formatLapSummary(context?.laps ?? []);
+    let formatLine: (body: string) => string;
+    const lines: string[] = [];
+
+    if (this.textFormatter) {
+      const formatter = this.textFormatter;
+      const helpers = this.createTextFormatHelpers(level, useColor);
+      const record: TextLogRecord = {
         level,
-        `${prefix}  Caused by: ${formatErrorMessage(cause)}`,
-      );
+        time: this.getRecordTime(context),
+        module: this.module,
+        context: this.getRecordFields(context),
+        duration: context?.duration,
+        durationMs: context?.durationMs,
+        laps: context?.laps,
+        thresholdExceeded: context?.thresholdExceeded,
+        message,
+        args,
+        text,
+        continuation: false,
+      };
+      lines.push(formatter(record, helpers));
+      formatLine = (body) =>
+        formatter(
+          {
+            ...record,
+            duration: undefined,
+            durationMs: undefined,
+            laps: undefined,
+            thresholdExceeded: undefined,
+            args: [],
+            text: body,
+            continuation: true,
+          },
+          helpers,
+        );
+    } else {
+      const prefix = this.buildPrefix(level, useColor, context);
+      const durationTag =
+        context?.duration !== undefined
+          ? formatDurationTag(context.duration, useColor, context.thresholdExceeded) +
+            " "
+          : "";
+      lines.push(`${prefix}${durationTag}${text}`);
+      formatLine = (body) => `${prefix}${body}`;
     }
+
+    // Handle error/fatal stack traces
+    if (this.levels.get(level)!.errorLike) {
+      const errors = getRecordErrors(message, args, context);
+
+      // Log properties, aggregated errors, cause chains and stacks for any Error objects
+      for (const error of errors) {
+        lines.push(...formatErrorTree(serializeError(error)).map(formatLine));
+        if (error.stack) {
+          lines.push(...this.formatStack(error.stack, "  ").map(formatLine));
+        }
+      }
+
+      // Always append native stack trace at the end
+      if (nativeStack) {
+        lines.push(formatLine("  Stack trace:"));
+        lines.push(...this.formatStack(nativeStack, "  ").map(formatLine));
+      }
+    }
+
+    return lines;
   }
 
-  // Log stack trace
-  private logStack(level: LogLevel, stack: string, indent: string = ""): void {
-    const prefix = this.buildPrefix(level);
-    const lines = stack.split("\n").filter((line) => line.trim());
-    for (const line of lines) {
-      this.writeLine(level, `${prefix}${indent}${line}`);
+  // Format a record for a sink, reusing output already built for an identical sink setup
+  private formatForSink(
+    sink: LogSink<L>,
+    cache: Map<string, string>,
+    build: (format: LoggerOutputFormat, useColor: boolean) => string,
+  ): string {
+    const format = sink.format ?? "text";
+    const useColor = format === "text" && (sink.color ?? this.useColor);
+    const key = `${format}:${useColor}`;
+    let output = cache.get(key);
+    if (output === undefined) {
+      output = build(format, useColor);
+      cache.set(key, output);
     }
+    return output;
   }
 
   /**
    * Log a message at the specified level.
-   * @param level - Log level (debug, info, warn, error, fatal)
-   * @param message - Primary message or value to log
+   * @param level - Log level (debug, info, warn, error, fatal or a custom level)
+   * @param message - Primary message or value to log. A string may contain
+   *   printf-style placeholders (`%s`, `%d`, `%i`, `%f`, `%j`, `%o`, `%O`,
+   *   `%%`) that consume args like `console.log`; jsonl records keep the
+   *   original string as `msgTemplate`. Errors consumed by a placeholder
+   *   still get their details and stack at error-like levels.
    * @param args - Additional values to log
    */
-  log(level: LogLevel, message: any, ...args: any[]): void {
+  log(level: LogLevel | L, message: any, ...args: any[]): void {
     this.logInternal(level, message, args);
   }
 
-  /** @internal */
-  isJsonlOutput(): boolean {
-    return this.outputFormat === "jsonl";
-  }
-
   /** @internal */
   logWithContext(
-    level: LogLevel,
+    level: string,
     message: unknown,
     args: unknown[],
     context?: JsonLogContext,
   ): void {
+    // Exceeded timer thresholds raise the level, never lower it
+    const threshold = context?.thresholdExceeded;
+    const current = this.levels.get(level);
+    if (threshold !== undefined && current) {
+      const escalated = THRESHOLD_LEVELS[threshold];
+      if (this.levels.get(escalated)!.severity > current.severity) level = escalated;
+    }
     this.logInternal(level, message, args, context);
   }
 
   private logInternal(
-    level: LogLevel,
+    level: string,
     message: unknown,
     args: unknown[],
     context?: JsonLogContext,
   ): void {
-    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.logLevel)) return;
+    const info = this.levels.get(level);
+    if (!info) return;
+    const recorder = this.flightRecorder;
+    const minLevel = this.levels.get(this.getEffectiveLevel())!;
+    if (info.severity < minLevel.severity) {
+      // Only calls below the level are kept for replay; sampling and rate limits stay final
+      if (recorder) this.recordCall(recorder, level, message, args, context, false);
+      return;
+    }
+
+    const sampleRate = getSampleRate(this.sampleRate, level);
+    if (sampleRate < 1 && level !== "fatal") {
+      if (Math.random() >= sampleRate) return;
+      context = { ...context, sampleRate };
+    }
 
-    if (this.outputFormat === "jsonl") {
-      const jsonRecord = this.buildJsonRecord(level, message, args, context);
-      this.writeLine(level, this.stringifyJsonRecord(jsonRecord));
+    if (this.rateLimiter) {
+      const key = typeof message === "string" ? message : inspect(message);
+      if (!this.rateLimiter.allow(level, key)) return;
+    }
 
-      if (level === "fatal") {
-        process.exit(1);
+    if (recorder) {
+      const trigger = this.levels.get(recorder.triggerLevel)!;
+      if (info.severity >= trigger.severity) {
+        recorder.dump(this.module);
+      } else {
+        this.recordCall(recorder, level, message, args, context, true);
       }
-      return;
     }
+    this.writeRecord(level, message, args, context);
+  }
 
-    const prefix = this.buildPrefix(level);
-    const formattedMessage = this.formatValue(message);
-    const formattedArgs = this.formatArgs(args);
-    const outputMessage = `${prefix}${formattedMessage}${formattedArgs}`;
+  // Keep a log call in the flight recorder with the time, fields and trace it was made in
+  private recordCall(
+    recorder: FlightRecorder,
+    level: string,
+    message: unknown,
+    args: unknown[],
+    context: JsonLogContext | undefined,
+    written: boolean,
+  ): void {
+    const recorded: JsonLogContext = {
+      ...context,
+      fields: this.getEffectiveContext(),
+      recordedAt: new Date(),
+    };
+    const trace = this.traceContext?.();
+    if (trace) {
+      const { traceId, spanId, traceFlags } = trace;
+      Object.assign(recorded, { traceId, spanId, traceFlags });
+    }
+    recorder.record(this.module, {
+      written,
+      write: () => this.writeRecord(level, message, args, recorded),
+    });
+  }
 
-    this.writeLine(level, outputMessage);
+  // Format and write a record that passed filtering to every accepting sink
+  private writeRecord(
+    level: string,
+    message: unknown,
+    args: unknown[],
+    context?: JsonLogContext,
+  ): void {
+    if (this.processors.length > 0) {
+      const processed = runProcessors(
+        this.processors,
+        {
+          level: level as LogLevel | L,
+          message,
+          args,
+          fields: this.getRecordFields(context),
+          module: this.module,
+        },
+        (name) => this.levels.has(name),
+      );
+      if (!processed) return;
+      ({ level, message, args } = processed);
+      const fields = this.redactor
+        ? (this.redactor(processed.fields) as LogContext)
+        : processed.fields;
+      context = { ...context, fields };
+    }
 
-    // Handle error/fatal stack traces
-    if (level === "error" || level === "fatal") {
-      // Find all Error objects in message and args
-      const allValues = [message, ...args];
-      const errors = allValues.filter((v): v is Error => v instanceof Error);
+    if (this.redactor) {
+      const redactor = this.redactor;
+      message = redactor(message);
+      args = args.map((arg) => redactor(arg));
+    }
 
-      // Log cause chains and stacks for any Error objects
-      for (const error of errors) {
-        this.logCauseChain(level, error);
-        if (error.stack) {
-          this.logStack(level, error.stack, "  ");
-        }
+    if (typeof message === "string") {
+      const interpolated = interpolate(message, args);
+      if (interpolated) {
+        const consumed = args.slice(0, args.length - interpolated.args.length);
+        const interpolatedErrors = consumed.filter((arg) => arg instanceof Error);
+        context = { ...context, msgTemplate: message };
+        if (interpolatedErrors.length > 0) context.interpolatedErrors = interpolatedErrors;
+        // Patterns may span the template and an arg, so redact the rendered message too
+        message = this.redactor
+          ? this.redactor(interpolated.message)
+          : interpolated.message;
+        args = interpolated.args;
       }
+    }
 
-      // Always append native stack trace at the end
-      const nativeStack = captureNativeStack();
-      if (nativeStack) {
-        this.writeLine(level, `${prefix}  Stack trace:`);
-        this.logStack(level, nativeStack, "  ");
-      }
+    // Flight-recorded calls already carry the trace context they were made in
+    const trace = context?.recordedAt ? undefined : this.traceContext?.();
+    if (trace) {
+      const { traceId, spanId, traceFlags } = trace;
+      context = { ...context, traceId, spanId, traceFlags };
+    }
+
+    const nativeStack = this.levels.get(level)!.errorLike ? captureNativeStack() : "";
+    const cache = new Map<string, string>();
+    for (const sink of this.sinks) {
+      if (!sinkAccepts(sink, level, this.levels)) continue;
+      const output = this.formatForSink(sink, cache, (format, useColor) => {
+        if (format !== "text") {
+          const jsonRecord = this.buildJsonRecord(
+            level,
+            message,
+            args,
+            context,
+            nativeStack,
+          );
+          const json = this.stringifyJsonRecord(jsonRecord);
+          if (format === "jsonl") return json + "\n";
+          if (format === "logfmt") return formatLogfmt(JSON.parse(json)) + "\n";
+          const severity = this.levels.get(level)!.severity;
+          if (format === "syslog") {
+            return (
+              formatSyslog(
+                JSON.parse(json),
+                getSyslogSeverity(severity),
+                this.syslogOptions,
+              ) + "\n"
+            );
+          }
+          const otelRecord = formatOtelRecord(
+            JSON.parse(json),
+            getOtelSeverityNumber(severity),
+            this.resource,
+          );
+          return JSON.stringify(otelRecord) + "\n";
+        }
+        const lines = this.formatTextLines(
+          level,
+          message,
+          args,
+          context,
+          nativeStack,
+          useColor,
+        );
+        return lines.map((line) => line + "\n").join("");
+      });
+      sink.stream.write(output);
     }
 
-    // Handle fatal: exit after logging
-    if (level === "fatal") {
-      process.exit(1);
+    if (level === "fatal" && !context?.recordedAt) {
+      this.handleFatal(message);
+    }
+  }
+
+  // Apply the configured fatal mode after a fatal line has been written
+  private handleFatal(message: unknown): void {
+    const {
+      mode = "exit",
+      exitCode = 1,
+      shutdownHooks = [],
+      shutdownTimeout = 5000,
+    } = this.fatalOptions;
+    if (mode === "log") return;
+
+    for (const stream of this.getStreams()) {
+      if (stream instanceof BufferedStream) stream.flushSync();
+    }
+
+    if (mode === "throw") {
+      const cause = message instanceof Error ? message : undefined;
+      const text = cause
+        ? formatErrorMessage(cause)
+        : this.formatValue(message, false);
+      throw new FatalError(text, { cause });
+    }
+
+    if (shutdownHooks.length === 0) {
+      process.exit(exitCode);
+      return;
     }
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+    void runShutdownHooks(shutdownHooks, shutdownTimeout)
+      .then(() => this.flush())
+      .finally(() => process.exit(exitCode));
   }
 
   /** Log at debug level. */
@@ -415,7 +1154,7 @@ export class Logger implements ILogger {
     this.log("error", message, ...args);
   }
 
-  /** Log at fatal level and exit the process. */
+  /** Log at fatal level, then exit the process (see {@link LoggerOptions.fatal}). */
   logFatal(message: any, ...args: any[]): void {
     this.log("fatal", message, ...args);
   }
@@ -446,15 +1185,12 @@ export class Logger implements ILogger {
   }
 
   /**
-   * Change the minimum log level at runtime.
+   * Change the minimum log level at runtime. Applies to child loggers too,
+   * unless they set their own level.
    * @throws Error if level is invalid
    */
-  setLogLevel(level: LogLevel): void {
-    if (!LOG_LEVELS.includes(level)) {
-      throw new Error(
-        `Invalid log level: "${level}". Valid levels: ${LOG_LEVELS.join(", ")}`,
-      );
-    }
+  setLogLevel(level: LogLevel | L): void {
+    this.validateLevel(level);
     this.logLevel = level;
   }
 
@@ -462,6 +1198,7 @@ export class Logger implements ILogger {
   setModule(module: string): void {
     this.module = module;
     this.moduleColor = this.computeModuleColor();
+    this.resolvedLevel = undefined;
   }
 
   /**
@@ -473,54 +1210,312 @@ export class Logger implements ILogger {
    * timer.info("Operation complete"); // [1.2s] Operation complete
    * ```
    */
-  timer(options?: TimerOptions): ITimer {
-    return new Timer(this, options);
+  timer(options?: TimerOptions): ITimer<L> {
+    return new Timer(this, options, Object.keys(this.customLevels)) as ITimer<L>;
   }
 
-  /** @internal Format a duration tag for timer logs. */
-  formatDurationTag(durationStr: string): string {
-    return this.colorize(`[${durationStr}]`, COLORS.blue);
+  /**
+   * Run a sync or async function and log its completion with the elapsed
+   * duration, or its failure at error level with the thrown error, which is
+   * rethrown. Returns the function's result (a promise for async functions).
+   * @throws Error if a level option is invalid
+   * @example
+   * ```ts
+   * const user = await logger.time("db.findUser", () => db.findUser(id), {
+   *   slowMs: 200,
+   * });
+   * // [api] [12ms] db.findUser completed
+   * ```
+   */
+  time<T>(label: string, fn: () => T, options: TimeOptions<L> = {}): T {
+    const {
+      logStart = false,
+      level = "info",
+      errorLevel = "error",
+      slowMs,
+      slowLevel = "warn",
+      ...timerOptions
+    } = options;
+    for (const option of [level, errorLevel, slowLevel]) this.validateLevel(option);
+    const timer = this.timer(timerOptions);
+    if (logStart) timer.log(level, `${label} started`);
+
+    const succeed = (value: T): T => {
+      const slow = slowMs !== undefined && timer.elapsed() >= slowMs;
+      timer.end(slow ? slowLevel : level, `${label} completed`);
+      return value;
+    };
+    const fail = (error: unknown): never => {
+      timer.end(errorLevel, `${label} failed`, error);
+      throw error;
+    };
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      return fail(error);
+    }
+    if (isPromiseLike(result)) {
+      return result.then(succeed as (value: unknown) => T, fail) as T;
+    }
+    return succeed(result);
   }
+
+  /**
+   * Write the flight-recorded log calls of this logger's scope that were not
+   * written yet, oldest first, and clear the buffer. Does nothing without
+   * the `flightRecorder` option.
+   * @example
+   * ```ts
+   * } catch (error) {
+   *   logger.dump(); // debug lines leading up to the handled failure
+   *   logger.warn("Retrying", error);
+   * }
+   * ```
+   */
+  dump(): void {
+    this.flightRecorder?.dump(this.module);
+  }
+
+  /**
+   * Wait until every buffered line has been written to its stream.
+   * Resolves immediately when buffering is disabled.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(
+      this.getStreams().map((stream) =>
+        stream instanceof BufferedStream ? stream.flush() : undefined,
+      ),
+    );
+  }
+
+  /**
+   * Flush buffered lines and end the output streams.
+   * `process.stdout` and `process.stderr` are never closed. Streams are shared
+   * with child loggers, so closing any of them closes them all.
+   */
+  async close(): Promise<void> {
+    for (const stream of this.getStreams()) {
+      if (stream instanceof BufferedStream) {
+        await stream.close();
+        await closeStream(stream.target);
+      } else {
+        await closeStream(stream);
+      }
+    }
+  }
+
+  /**
+   * Create a child logger that attaches bound fields to every record.
+   * The child shares this logger's level (following later
+   * {@link setLogLevel} calls), module, streams and output format;
+   * nested children merge their fields with their parent's.
+   * @example
+   * ```ts
+   * const reqLogger = logger.child({ requestId: "abc123" });
+   * reqLogger.info("Handling request"); // [api] requestId=abc123 Handling request
+   * ```
+   */
+  child(fields: LogContext): ILogger<L> {
+    const child = new Logger<L>({
+      logLevel: this.getOwnLevel(),
+      levels: this.customLevels,
+      module: this.module,
+      context: { ...this.context, ...fields },
+      sinks: this.sinks,
+      redact: this.redactOptions,
+      sampleRate: this.sampleRate,
+      textFormat: this.textFormat,
+      fatal: this.fatalOptions,
+      traceContext: this.traceContext,
+      resource: this.resource,
+      syslog: this.syslogOptions,
+      processors: this.processors,
+    });
+    child.logLevel = undefined;
+    child.parent = this;
+    child.rateLimiter = this.rateLimiter;
+    child.flightRecorder = this.flightRecorder;
+    return child as Logger<L> & LevelMethods<L>;
+  }
+
 }
 
-class Timer implements ITimer {
+class Timer<L extends string = never> implements BaseTimer<L> {
   private startTime: number;
-  private logger: Logger;
+  private logger: Logger<L>;
   private format: TimerFormat;
-
-  constructor(logger: Logger, options?: TimerOptions) {
+  private laps: TimerLap[] = [];
+  private lastLapMs = 0;
+  private stopTime: number | undefined;
+  private thresholds: Array<[TimerThreshold, number]> = [];
+  private watchdog: ReturnType<typeof setTimeout> | undefined;
+  private levels: string[];
+  private name: string | undefined;
+  private parent: Timer<L> | undefined;
+  private children: Timer<L>[] = [];
+  private logTree: boolean;
+  readonly spanId = createSpanId();
+
+  constructor(
+    logger: Logger<L>,
+    options: TimerOptions | undefined,
+    levels: string[],
+    parent?: Timer<L>,
+  ) {
     this.startTime = performance.now();
     this.logger = logger;
     this.format = options?.format ?? "narrow";
+    this.levels = levels;
+    this.name = options?.name;
+    this.parent = parent;
+    this.logTree = options?.logTree ?? false;
+    const { warnAfterMs, errorAfterMs, budgetMs } = options ?? {};
+    for (const [name, ms] of Object.entries({ warnAfterMs, errorAfterMs, budgetMs })) {
+      if (ms !== undefined && !(ms >= 0)) {
+        throw new Error(
+          `Invalid timer threshold: ${name}=${ms}. Must be a non-negative number`,
+        );
+      }
+    }
+    // Checked in order, so the most severe exceeded threshold wins
+    if (errorAfterMs !== undefined) this.thresholds.push(["errorAfterMs", errorAfterMs]);
+    if (warnAfterMs !== undefined) this.thresholds.push(["warnAfterMs", warnAfterMs]);
+    if (budgetMs !== undefined) {
+      this.watchdog = setTimeout(() => {
+        this.watchdog = undefined;
+        this.logWithDuration(
+          "warn",
+          `Timer still running after its ${formatDuration(budgetMs, this.format)} budget`,
+          [],
+          { threshold: ["budgetMs", budgetMs] },
+        );
+      }, budgetMs);
+      // Never keep the process alive just to report a hung timer
+      this.watchdog.unref?.();
+    }
+    defineLevelMethods(this, levels, (level, message, args) =>
+      this.logWithDuration(level, message, args),
+    );
+    if (this.name !== undefined) {
+      this.logWithDuration("debug", `${this.name} started`, [], { event: "start" });
+    }
   }
 
   private getElapsedDuration(): { elapsedMs: number; formatted: string } {
-    const elapsed = performance.now() - this.startTime;
+    const elapsed = (this.stopTime ?? performance.now()) - this.startTime;
     const formatted = formatDuration(elapsed, this.format);
     return { elapsedMs: elapsed, formatted };
   }
 
-  private prependDurationTag(message: any): string {
-    const { formatted } = this.getElapsedDuration();
-    const durationTag = this.logger.formatDurationTag(formatted);
-    // Use inspect for objects to avoid [object Object]
-    const messageStr =
-      typeof message === "string"
-        ? message
-        : inspect(message, { depth: 10, colors: false });
-    return `${durationTag} ${messageStr}`;
+  log(level: LogLevel | L, message: any, ...args: any[]): void {
+    this.logWithDuration(level, message, args);
   }
 
-  log(level: LogLevel, message: any, ...args: any[]): void {
-    if (this.logger.isJsonlOutput()) {
-      const { elapsedMs, formatted } = this.getElapsedDuration();
-      this.logger.logWithContext(level, message, args, {
-        duration: formatted,
-        durationMs: Math.round(elapsedMs),
-      });
-      return;
+  private logWithDuration(
+    level: string,
+    message: unknown,
+    args: unknown[],
+    {
+      laps,
+      threshold,
+      event,
+    }: {
+      laps?: TimerLap[];
+      threshold?: [TimerThreshold, number];
+      event?: "start" | "end";
+    } = {},
+  ): void {
+    const { elapsedMs, formatted } = this.getElapsedDuration();
+    threshold ??= this.thresholds.find(([, ms]) => elapsedMs >= ms);
+    // A start event has no elapsed time worth showing
+    const started = event === "start";
+    this.logger.logWithContext(level, message, args, {
+      duration: started ? undefined : formatted,
+      durationMs: started ? undefined : Math.round(elapsedMs),
+      laps,
+      thresholdExceeded: threshold?.[0],
+      thresholdMs: threshold?.[1],
+      span:
+        this.name === undefined
+          ? undefined
+          : {
+              spanId: this.spanId,
+              parentSpanId: this.parent?.spanId,
+              name: this.name,
+              event,
+            },
+    });
+  }
+
+  mark(label: string): void {
+    this.lap(label);
+  }
+
+  lap(label: string): number {
+    if (this.stopTime !== undefined) return 0;
+    const elapsedMs = performance.now() - this.startTime;
+    const lapMs = elapsedMs - this.lastLapMs;
+    this.lastLapMs = elapsedMs;
+    this.laps.push({
+      label,
+      duration: formatDuration(lapMs, this.format),
+      durationMs: Math.round(lapMs),
+      elapsed: formatDuration(elapsedMs, this.format),
+      elapsedMs: Math.round(elapsedMs),
+    });
+    return lapMs;
+  }
+
+  elapsed(): number {
+    return this.getElapsedDuration().elapsedMs;
+  }
+
+  stop(): number {
+    return this.end();
+  }
+
+  end(
+    level: LogLevel | L = "info",
+    message: any = this.name === undefined ? "Timer stopped" : `${this.name} ended`,
+    ...args: any[]
+  ): number {
+    this.stopTime ??= performance.now();
+    clearTimeout(this.watchdog);
+    this.watchdog = undefined;
+    this.logWithDuration(level, message, args, {
+      laps: [...this.laps],
+      event: "end",
+    });
+    if (this.logTree && !this.parent) {
+      this.logWithDuration(level, `Span tree\n${this.renderTree()}`, []);
     }
-    this.logger.log(level, this.prependDurationTag(message), ...args);
+    return this.elapsed();
+  }
+
+  child(name: string, options?: TimerOptions): ITimer<L> {
+    const child = new Timer(
+      this.logger,
+      { format: this.format, ...options, name },
+      this.levels,
+      this,
+    );
+    this.children.push(child);
+    return child as ITimer<L>;
+  }
+
+  renderTree(): string {
+    return renderSpanTree(this.toSpanNode(), this.format);
+  }
+
+  private toSpanNode(): SpanNode {
+    return {
+      name: this.name ?? "timer",
+      durationMs: this.elapsed(),
+      running: this.stopTime === undefined,
+      children: this.children.map((child) => child.toSpanNode()),
+    };
   }
 
   logDebug(message: any, ...args: any[]): void {
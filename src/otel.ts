@@ -0,0 +1,108 @@
+import { LEVEL_SEVERITIES, LOG_LEVELS } from "./common";
+
+/** Trace context of the operation a record was logged in (W3C trace ids as hex). */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  /** W3C trace flags, e.g. 1 when sampled. */
+  traceFlags?: number;
+}
+
+/**
+ * Returns the active trace context, or undefined outside a trace.
+ *
+ * @example
+ * ```ts
+ * import { trace } from "@opentelemetry/api";
+ * const traceContext = () => trace.getActiveSpan()?.spanContext();
+ * ```
+ */
+export type TraceContextProvider = () => TraceContext | undefined;
+
+/** Resource attributes describing the log source, e.g. `service.name`. */
+export type OtelResource = Record<string, unknown>;
+
+// SeverityNumber at the start of each OTel range (TRACE 1-4 ... FATAL 21-24)
+const OTEL_SEVERITY_NUMBERS = {
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  fatal: 21,
+} as const;
+
+// Record keys mapped to top-level OTel fields instead of attributes
+const TOP_LEVEL_KEYS = new Set([
+  "timestamp",
+  "level",
+  "severity",
+  "message",
+  "traceId",
+  "spanId",
+  "traceFlags",
+]);
+
+/**
+ * @internal Map a level severity to an OTel SeverityNumber. Built-in levels
+ * start their OTel range; custom levels fall inside the range of the nearest
+ * built-in level below them (TRACE below debug).
+ */
+export function getOtelSeverityNumber(severity: number): number {
+  let base = 1;
+  let baseSeverity = -Infinity;
+  for (const level of LOG_LEVELS) {
+    if (LEVEL_SEVERITIES[level] > severity) break;
+    base = OTEL_SEVERITY_NUMBERS[level];
+    baseSeverity = LEVEL_SEVERITIES[level];
+  }
+  // Built-in severities are 10 apart; spread the gap over the range's 4 numbers
+  const offset =
+    baseSeverity === -Infinity ? 0 : Math.floor(((severity - baseSeverity) / 10) * 4);
+  return base + Math.min(offset, 3);
+}
+
+function toUnixNano(timestamp: unknown): string {
+  const ms = Date.parse(String(timestamp));
+  return Number.isNaN(ms) ? "0" : (BigInt(ms) * 1_000_000n).toString();
+}
+
+// Semantic convention attributes for the first error of a record
+function exceptionAttributes(errors: unknown): Record<string, unknown> {
+  if (!Array.isArray(errors) || errors.length === 0) return {};
+  const error = errors[0] as Record<string, unknown>;
+  return {
+    "exception.type": error["name"],
+    "exception.message": error["message"],
+    "exception.stacktrace": error["stack"],
+  };
+}
+
+/**
+ * @internal Reshape a parsed jsonl record into the OpenTelemetry log data model.
+ * Fields other than the timestamp, level, message and trace context become
+ * attributes.
+ */
+export function formatOtelRecord(
+  record: Record<string, unknown>,
+  severityNumber: number,
+  resource: OtelResource | undefined,
+): Record<string, unknown> {
+  const attributes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!TOP_LEVEL_KEYS.has(key)) attributes[key] = value;
+  }
+  Object.assign(attributes, exceptionAttributes(record["errors"]));
+
+  const otel: Record<string, unknown> = {
+    Timestamp: toUnixNano(record["timestamp"]),
+    SeverityNumber: severityNumber,
+    SeverityText: String(record["level"]).toUpperCase(),
+    Body: record["message"],
+    Attributes: attributes,
+  };
+  if (resource) otel["Resource"] = resource;
+  if (record["traceId"] !== undefined) otel["TraceId"] = record["traceId"];
+  if (record["spanId"] !== undefined) otel["SpanId"] = record["spanId"];
+  if (record["traceFlags"] !== undefined) otel["TraceFlags"] = record["traceFlags"];
+  return otel;
+}
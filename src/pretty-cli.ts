@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+import { createReadStream } from "node:fs";
+import { detectPrettyOptions, prettyPrint } from "./pretty";
+
+const USAGE = `Usage: sml-pretty [options] [file...]
+
+Render jsonl logs written by simple-module-logger as colored text.
+Reads from stdin when no file (or "-") is given. Non-JSON lines are passed through.
+
+Options:
+  --color       Force colors
+  --no-color    Disable colors
+  -h, --help    Show this help`;
+
+async function main(argv: string[]): Promise<number> {
+  const options = detectPrettyOptions();
+  const files: string[] = [];
+  for (const arg of argv) {
+    if (arg === "-h" || arg === "--help") {
+      process.stdout.write(USAGE + "\n");
+      return 0;
+    } else if (arg === "--color") {
+      options.color = true;
+    } else if (arg === "--no-color") {
+      options.color = false;
+    } else if (arg.startsWith("-") && arg !== "-") {
+      process.stderr.write(`Unknown option: ${arg}\n\n${USAGE}\n`);
+      return 2;
+    } else {
+      files.push(arg);
+    }
+  }
+
+  for (const file of files.length > 0 ? files : ["-"]) {
+    const input = file === "-" ? process.stdin : createReadStream(file);
+    await prettyPrint(input, process.stdout, options);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    process.stderr.write(
+      `sml-pretty: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,165 @@
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import { inspect } from "util";
+import type { LogContext } from "./common";
+import type { TimerLap, TimerThreshold } from "./duration";
+import { isSerializedError, type SerializedError } from "./error";
+import {
+  formatDurationTag,
+  formatErrorTree,
+  formatLapSummary,
+  formatPrefix,
+  getModuleColor,
+} from "./layout";
+import type { WriteStream } from "./sink";
+
+/** Options for rendering jsonl records as text. */
+export interface PrettyOptions {
+  /** Use ANSI colors. */
+  color: boolean;
+  /** Use truecolor module tags (as with `COLORTERM=truecolor`). */
+  truecolor: boolean;
+}
+
+/**
+ * @internal Detect color support for CLI output on stdout, honoring
+ * NO_COLOR, FORCE_COLOR and COLORTERM like the Logger does.
+ */
+export function detectPrettyOptions(): PrettyOptions {
+  let color = process.stdout.isTTY === true;
+  if (process.env["FORCE_COLOR"] !== undefined) color = true;
+  if (process.env["NO_COLOR"] !== undefined) color = false;
+  const colorterm = process.env["COLORTERM"];
+  return {
+    color,
+    truecolor: colorterm === "truecolor" || colorterm === "24bit",
+  };
+}
+
+// Record keys produced by the Logger; everything else is a context field
+const RECORD_KEYS = new Set([
+  "timestamp",
+  "level",
+  "severity",
+  "message",
+  "module",
+  "args",
+  "duration",
+  "durationMs",
+  "errors",
+  "nativeStack",
+  "msgTemplate",
+  "suppressed",
+  "sampleRate",
+  "laps",
+  "thresholdExceeded",
+  "thresholdMs",
+  "recorded",
+  "span",
+  "traceId",
+  "spanId",
+  "traceFlags",
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>)["level"] === "string" &&
+    "message" in value
+  );
+}
+
+function formatValue(value: unknown, useColor: boolean): string {
+  if (typeof value === "string") return value;
+  if (isSerializedError(value)) return String(value.message);
+  return inspect(value, { depth: 10, colors: useColor });
+}
+
+function formatStack(prefix: string, stack: unknown): string[] {
+  if (typeof stack !== "string") return [];
+  return stack
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => `${prefix}  ${line}`);
+}
+
+/**
+ * Render one jsonl record produced by a Logger as text-mode lines.
+ * Returns undefined when the line is not such a record.
+ */
+export function renderJsonLine(
+  line: string,
+  options: PrettyOptions,
+): string[] | undefined {
+  let record: unknown;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+  if (!isRecord(record)) return undefined;
+
+  const module = typeof record["module"] === "string" ? record["module"] : "";
+  const context: LogContext = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!RECORD_KEYS.has(key)) context[key] = value;
+  }
+  const prefix = formatPrefix(
+    {
+      timestamp: String(record["timestamp"] ?? ""),
+      level: String(record["level"]),
+      module,
+      moduleColor: getModuleColor(module, options.truecolor),
+      context,
+    },
+    options.color,
+  );
+
+  const durationTag =
+    typeof record["duration"] === "string"
+      ? formatDurationTag(
+          record["duration"],
+          options.color,
+          record["thresholdExceeded"] as TimerThreshold | undefined,
+        ) + " "
+      : "";
+  const args = Array.isArray(record["args"]) ? record["args"] : [];
+  const laps = Array.isArray(record["laps"]) ? (record["laps"] as TimerLap[]) : [];
+  const text =
+    [record["message"], ...args]
+      .map((value) => formatValue(value, options.color))
+      .join(" ") + formatLapSummary(laps);
+  const lines = [`${prefix}${durationTag}${text}`];
+
+  const errors = Array.isArray(record["errors"])
+    ? (record["errors"] as SerializedError[])
+    : [];
+  for (const error of errors) {
+    lines.push(...formatErrorTree(error).map((line) => `${prefix}${line}`));
+    lines.push(...formatStack(prefix, error.stack));
+  }
+  if (typeof record["nativeStack"] === "string" && record["nativeStack"]) {
+    lines.push(`${prefix}  Stack trace:`);
+    lines.push(...formatStack(prefix, record["nativeStack"]));
+  }
+
+  return lines;
+}
+
+/**
+ * Render a stream of jsonl log lines as text, passing other lines through
+ * unchanged. Resolves when the input ends.
+ */
+export async function prettyPrint(
+  input: Readable,
+  output: WriteStream,
+  options: PrettyOptions,
+): Promise<void> {
+  const reader = createInterface({ input, crlfDelay: Infinity });
+  for await (const line of reader) {
+    const rendered = renderJsonLine(line, options);
+    output.write((rendered ?? [line]).join("\n") + "\n");
+  }
+}
@@ -0,0 +1,88 @@
+import { inspect } from "util";
+
+/** @internal Result of interpolating a printf-style message. */
+export interface InterpolatedMessage {
+  /** Message with placeholders replaced. */
+  message: string;
+  /** Args not consumed by a placeholder. */
+  args: unknown[];
+}
+
+// Like JSON.stringify, but tolerant of circular references and bigints
+function toJson(value: unknown): string {
+  const ancestors: object[] = [];
+  try {
+    return (
+      JSON.stringify(value, function (this: unknown, _key, item: unknown) {
+        if (typeof item === "bigint") return item.toString();
+        if (typeof item === "object" && item !== null) {
+          while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+            ancestors.pop();
+          }
+          if (ancestors.includes(item)) return "[Circular]";
+          ancestors.push(item);
+        }
+        return item;
+      }) ?? "undefined"
+    );
+  } catch {
+    return "[Unserializable]";
+  }
+}
+
+function toNumber(value: unknown, parse: (str: string) => number): string {
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value === "symbol") return "NaN";
+  return String(parse(String(value)));
+}
+
+const CONVERSIONS: Record<string, (value: unknown) => string> = {
+  s: (value) => {
+    if (typeof value === "string") return value;
+    if (typeof value === "bigint") return `${value}n`;
+    if (typeof value === "object" && value !== null && !(value instanceof Error)) {
+      return inspect(value, { depth: 1, colors: false, breakLength: Infinity });
+    }
+    return String(value);
+  },
+  d: (value) =>
+    typeof value === "object" && value !== null
+      ? "NaN"
+      : toNumber(value, Number),
+  i: (value) =>
+    typeof value === "object" && value !== null
+      ? "NaN"
+      : toNumber(value, (str) => parseInt(str, 10)),
+  f: (value) => toNumber(value, parseFloat),
+  j: toJson,
+  o: (value) =>
+    inspect(value, { showHidden: true, depth: 4, colors: false }),
+  O: (value) => inspect(value, { colors: false }),
+  c: () => "", // CSS styling from console.log is ignored
+};
+
+/**
+ * @internal Replace `%s`, `%d`, `%i`, `%f`, `%j`, `%o`, `%O`, `%c` and `%%` in
+ * a message, consuming args in order like `util.format`. Placeholders without
+ * a remaining arg are left as-is. Returns undefined when the message has no
+ * placeholders.
+ */
+export function interpolate(
+  template: string,
+  args: unknown[],
+): InterpolatedMessage | undefined {
+  if (!template.includes("%")) return undefined;
+  let index = 0;
+  let matched = false;
+  const message = template.replace(/%([sdifjoOc%])/g, (placeholder, type: string) => {
+    if (type === "%") {
+      matched = true;
+      return "%";
+    }
+    if (index >= args.length) return placeholder;
+    matched = true;
+    return CONVERSIONS[type]!(args[index++]);
+  });
+  if (!matched) return undefined;
+  return { message, args: args.slice(index) };
+}
@@ -0,0 +1,91 @@
+import type { LogContext, LogLevel } from "./common";
+import { formatErrorMessage } from "./error";
+
+/** A log record as seen by processors, before it is formatted. */
+export interface ProcessorRecord<L extends string = never> {
+  level: LogLevel | L;
+  message: unknown;
+  args: unknown[];
+  /** Bound, ambient and earlier processors' fields, written like context fields. */
+  fields: LogContext;
+  /** Module of the logger (read-only). */
+  readonly module: string;
+}
+
+/**
+ * Enriches, rewrites or drops a record before it is formatted. Returns the
+ * (possibly mutated) record, a replacement, or null to drop it.
+ *
+ * @example
+ * ```ts
+ * const addHost: LogProcessor = (record) => {
+ *   record.fields.host = hostname();
+ *   return record;
+ * };
+ * ```
+ */
+export type LogProcessor<L extends string = never> = (
+  record: ProcessorRecord<L>,
+) => ProcessorRecord<L> | null;
+
+/**
+ * @internal Run processors in order. A processor that throws, or returns
+ * neither null nor a record with a known level, an `args` array and a
+ * `fields` object, is skipped and the record gets a `processorError` field
+ * describing the failure.
+ * @returns the processed record, or null if a processor dropped it
+ */
+export function runProcessors<L extends string>(
+  processors: LogProcessor<L>[],
+  record: ProcessorRecord<L>,
+  isLevel: (level: string) => boolean,
+): ProcessorRecord<L> | null {
+  let current = record;
+  for (const processor of processors) {
+    let result: ProcessorRecord<L> | null;
+    try {
+      result = processor({ ...current, fields: { ...current.fields } });
+    } catch (error) {
+      current = withProcessorError(current, formatProcessorError(error));
+      continue;
+    }
+    if (result === null) return null;
+    if (typeof result !== "object") {
+      current = withProcessorError(current, `Invalid processor result: ${String(result)}`);
+      continue;
+    }
+    if (!isLevel(result.level)) {
+      current = withProcessorError(current, `Invalid log level: "${result.level}"`);
+      continue;
+    }
+    if (!Array.isArray(result.args)) {
+      current = withProcessorError(
+        current,
+        "Invalid processor result: args must be an array",
+      );
+      continue;
+    }
+    if (typeof result.fields !== "object" || result.fields === null) {
+      current = withProcessorError(
+        current,
+        "Invalid processor result: fields must be an object",
+      );
+      continue;
+    }
+    current = { ...result, module: record.module };
+  }
+  return current;
+}
+
+function formatProcessorError(error: unknown): string {
+  return error instanceof Error
+    ? `${error.name}: ${formatErrorMessage(error)}`
+    : String(error);
+}
+
+function withProcessorError<L extends string>(
+  record: ProcessorRecord<L>,
+  message: string,
+): ProcessorRecord<L> {
+  return { ...record, fields: { ...record.fields, processorError: message } };
+}
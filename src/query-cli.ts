@@ -0,0 +1,199 @@
+#!/usr/bin/env node
+import { LOG_LEVELS, type LogLevel } from "./common";
+import { detectPrettyOptions } from "./pretty";
+import {
+  followLines,
+  parseQueryTime,
+  queryLogs,
+  readFileLines,
+  type LogQuery,
+  type QueryOutputFormat,
+} from "./query";
+
+const USAGE = `Usage: sml-query [options] [file...]
+
+Filter jsonl logs written by simple-module-logger.
+Reads from stdin when no file (or "-") is given. Non-JSON lines are skipped.
+
+Options:
+  -l, --level <level>       Minimum level (${LOG_LEVELS.join(", ")}); custom levels by their severity
+  -m, --module <glob>       Module glob, e.g. "api:*"
+      --since <time>        Records at or after an ISO date or a duration ago (15m, 2h, 1d)
+      --until <time>        Records at or before an ISO date or a duration ago
+  -t, --text <text>         Message contains text
+  -e, --regex <pattern>     Message matches a regular expression
+  -i, --ignore-case         Case-insensitive --text and --regex
+  -w, --where <key=value>   Field equals value (dotted paths, repeatable)
+  -o, --output <format>     Output as "jsonl" (default) or "pretty"
+  -f, --follow              Keep reading lines appended to a single file
+      --color, --no-color   Force or disable colors for pretty output
+  -h, --help                Show this help`;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  query: LogQuery;
+  output: QueryOutputFormat;
+  follow: boolean;
+  color: boolean | undefined;
+  files: string[];
+}
+
+function parseArgs(argv: string[]): CliOptions | undefined {
+  const options: CliOptions = {
+    query: {},
+    output: "jsonl",
+    follow: false,
+    color: undefined,
+    files: [],
+  };
+  let text: string | undefined;
+  let pattern: string | undefined;
+  let ignoreCase = false;
+  const where: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const value = (): string => {
+      const next = argv[++i];
+      if (next === undefined) throw new UsageError(`Missing value for ${arg}`);
+      return next;
+    };
+    switch (arg) {
+      case "-h":
+      case "--help":
+        return undefined;
+      case "-l":
+      case "--level": {
+        const level = value();
+        if (!LOG_LEVELS.includes(level as LogLevel)) {
+          throw new UsageError(
+            `Invalid log level: "${level}". Valid levels: ${LOG_LEVELS.join(", ")}`,
+          );
+        }
+        options.query.level = level as LogLevel;
+        break;
+      }
+      case "-m":
+      case "--module":
+        options.query.module = value();
+        break;
+      case "--since":
+        options.query.since = parseQueryTime(value());
+        break;
+      case "--until":
+        options.query.until = parseQueryTime(value());
+        break;
+      case "-t":
+      case "--text":
+        text = value();
+        break;
+      case "-e":
+      case "--regex":
+        pattern = value();
+        break;
+      case "-i":
+      case "--ignore-case":
+        ignoreCase = true;
+        break;
+      case "-w":
+      case "--where": {
+        const entry = value();
+        const separator = entry.indexOf("=");
+        if (separator <= 0) {
+          throw new UsageError(`Invalid --where: "${entry}". Expected key=value`);
+        }
+        where[entry.slice(0, separator)] = entry.slice(separator + 1);
+        break;
+      }
+      case "-o":
+      case "--output": {
+        const output = value();
+        if (output !== "jsonl" && output !== "pretty") {
+          throw new UsageError(
+            `Invalid output format: "${output}". Valid formats: jsonl, pretty`,
+          );
+        }
+        options.output = output;
+        break;
+      }
+      case "-f":
+      case "--follow":
+        options.follow = true;
+        break;
+      case "--color":
+        options.color = true;
+        break;
+      case "--no-color":
+        options.color = false;
+        break;
+      default:
+        if (arg.startsWith("-") && arg !== "-") {
+          throw new UsageError(`Unknown option: ${arg}`);
+        }
+        options.files.push(arg);
+    }
+  }
+
+  if (text !== undefined) {
+    options.query.text = text;
+    options.query.ignoreCase = ignoreCase;
+  }
+  if (pattern !== undefined) {
+    options.query.regex = new RegExp(pattern, ignoreCase ? "i" : "");
+  }
+  if (Object.keys(where).length > 0) options.query.where = where;
+  if (options.follow && (options.files.length !== 1 || options.files[0] === "-")) {
+    throw new UsageError("--follow requires exactly one file");
+  }
+  return options;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | undefined;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+    return 2;
+  }
+  if (!options) {
+    process.stdout.write(USAGE + "\n");
+    return 0;
+  }
+
+  const prettyOptions = detectPrettyOptions();
+  if (options.color !== undefined) prettyOptions.color = options.color;
+
+  if (options.follow) {
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    const lines = followLines(options.files[0]!, { signal: controller.signal });
+    await queryLogs(lines, process.stdout, options.query, options.output, prettyOptions);
+    return 0;
+  }
+
+  for (const file of options.files.length > 0 ? options.files : ["-"]) {
+    await queryLogs(
+      readFileLines(file),
+      process.stdout,
+      options.query,
+      options.output,
+      prettyOptions,
+    );
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    process.stderr.write(
+      `sml-query: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,226 @@
+import { createReadStream } from "node:fs";
+import { open, stat } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+import { LEVEL_SEVERITIES, LOG_LEVELS, type LogLevel } from "./common";
+import { globToRegExp } from "./levels";
+import { renderJsonLine, type PrettyOptions } from "./pretty";
+import type { WriteStream } from "./sink";
+
+/** Criteria for selecting jsonl log records. All given criteria must match. */
+export interface LogQuery {
+  /**
+   * Minimum built-in level. Records at custom levels compare by their
+   * `severity` field; those without one always pass.
+   */
+  level?: LogLevel;
+  /** Module glob, e.g. `api:*`. */
+  module?: string;
+  /** Earliest timestamp (inclusive). */
+  since?: Date;
+  /** Latest timestamp (inclusive). */
+  until?: Date;
+  /** Substring the rendered message must contain. */
+  text?: string;
+  /** Compare `text` case-insensitively. */
+  ignoreCase?: boolean;
+  /** Pattern the rendered message must match. */
+  regex?: RegExp;
+  /**
+   * Field equality by dotted path (e.g. `requestId`, `args.0.port`).
+   * Strings compare as-is; other values compare by their JSON encoding.
+   */
+  where?: Record<string, string>;
+}
+
+/** Output style for matching records. */
+export type QueryOutputFormat = "jsonl" | "pretty";
+
+const RELATIVE_TIME = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/;
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse an absolute date (anything `Date.parse` accepts) or a duration ago
+ * such as `15m`, `2h` or `1d`.
+ * @throws Error if the value is neither
+ */
+export function parseQueryTime(value: string, now: Date = new Date()): Date {
+  const relative = RELATIVE_TIME.exec(value);
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * UNIT_MS[relative[2]!]!);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(
+      `Invalid time: "${value}". Use an ISO date or a duration like 15m, 2h, 1d`,
+    );
+  }
+  return new Date(time);
+}
+
+function getPath(record: unknown, path: string): unknown {
+  let current = record;
+  for (const key of path.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// Severity of a built-in level, else the one written with a custom level
+function getRecordSeverity(record: Record<string, unknown>): number | undefined {
+  const level = record["level"] as LogLevel;
+  if (LOG_LEVELS.includes(level)) return LEVEL_SEVERITIES[level];
+  return typeof record["severity"] === "number" ? record["severity"] : undefined;
+}
+
+/** Build a predicate selecting parsed records that match a query. */
+export function createRecordFilter(
+  query: LogQuery,
+): (record: Record<string, unknown>) => boolean {
+  if (query.level !== undefined && !LOG_LEVELS.includes(query.level)) {
+    throw new Error(
+      `Invalid log level: "${query.level}". Valid levels: ${LOG_LEVELS.join(", ")}`,
+    );
+  }
+  const minSeverity = query.level ? LEVEL_SEVERITIES[query.level] : undefined;
+  const moduleRegex = query.module ? globToRegExp(query.module) : undefined;
+  const where = Object.entries(query.where ?? {});
+  const text = query.ignoreCase ? query.text?.toLowerCase() : query.text;
+
+  return (record) => {
+    if (minSeverity !== undefined) {
+      const severity = getRecordSeverity(record);
+      if (severity !== undefined && severity < minSeverity) return false;
+    }
+    if (moduleRegex) {
+      const module = typeof record["module"] === "string" ? record["module"] : "";
+      if (!moduleRegex.test(module)) return false;
+    }
+    if (query.since || query.until) {
+      const time = Date.parse(String(record["timestamp"]));
+      if (Number.isNaN(time)) return false;
+      if (query.since && time < query.since.getTime()) return false;
+      if (query.until && time > query.until.getTime()) return false;
+    }
+    if (text !== undefined || query.regex) {
+      const message =
+        typeof record["message"] === "string"
+          ? record["message"]
+          : JSON.stringify(record["message"]);
+      if (text !== undefined) {
+        const haystack = query.ignoreCase ? message.toLowerCase() : message;
+        if (!haystack.includes(text)) return false;
+      }
+      if (query.regex && !query.regex.test(message)) return false;
+    }
+    for (const [path, expected] of where) {
+      const value = getPath(record, path);
+      const actual = typeof value === "string" ? value : JSON.stringify(value);
+      if (actual !== expected) return false;
+    }
+    return true;
+  };
+}
+
+const FOLLOW_CHUNK_SIZE = 65536;
+
+/** Read lines from a stream without loading it fully. */
+export function readLines(input: Readable): AsyncIterable<string> {
+  return createInterface({ input, crlfDelay: Infinity });
+}
+
+/**
+ * Yield the lines of a file, then keep yielding lines appended to it (like
+ * `tail -f`) until the signal aborts. A file that shrinks is treated as
+ * truncated or rotated and read again from the start.
+ */
+export async function* followLines(
+  path: string,
+  { signal, interval = 250 }: { signal?: AbortSignal; interval?: number } = {},
+): AsyncGenerator<string> {
+  let offset = 0;
+  let partial = "";
+  // Keeps multi-byte characters split across chunk boundaries intact
+  let decoder = new StringDecoder("utf8");
+  while (!signal?.aborted) {
+    const { size } = await stat(path);
+    if (size < offset) {
+      offset = 0;
+      partial = "";
+      decoder = new StringDecoder("utf8");
+    }
+    if (size > offset) {
+      const handle = await open(path, "r");
+      try {
+        // Read in bounded chunks so large files are never loaded at once
+        const buffer = Buffer.alloc(Math.min(size - offset, FOLLOW_CHUNK_SIZE));
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+        offset += bytesRead;
+        const text = decoder.write(buffer.subarray(0, bytesRead));
+        const lines = (partial + text).split("\n");
+        partial = lines.pop() ?? "";
+        for (const line of lines) yield line;
+      } finally {
+        await handle.close();
+      }
+      continue;
+    }
+    await new Promise<void>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, interval);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+/** Open a file (or stdin for "-") as a stream of lines. */
+export function readFileLines(path: string): AsyncIterable<string> {
+  return readLines(path === "-" ? process.stdin : createReadStream(path));
+}
+
+/**
+ * Write the records among `lines` that match a query, as jsonl (unchanged
+ * lines) or rendered as text. Non-JSON lines are skipped.
+ * @returns the number of matching records
+ */
+export async function queryLogs(
+  lines: AsyncIterable<string>,
+  output: WriteStream,
+  query: LogQuery,
+  format: QueryOutputFormat = "jsonl",
+  prettyOptions: PrettyOptions = { color: false, truecolor: false },
+): Promise<number> {
+  const matches = createRecordFilter(query);
+  let count = 0;
+  for await (const line of lines) {
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (typeof record !== "object" || record === null || Array.isArray(record)) {
+      continue;
+    }
+    if (!matches(record as Record<string, unknown>)) continue;
+    count++;
+    const rendered =
+      format === "pretty" ? renderJsonLine(line, prettyOptions) : undefined;
+    output.write((rendered ?? [line]).join("\n") + "\n");
+  }
+  return count;
+}
@@ -0,0 +1,141 @@
+import type { LogLevel } from "./common";
+import { getContextStore } from "./context";
+
+/** How recorded lines are grouped into separate buffers. */
+export const FLIGHT_RECORDER_SCOPES = ["logger", "module", "context"] as const;
+
+/**
+ * - "logger": one buffer shared by a logger and its children
+ * - "module": one buffer per module name, shared by every logger of that module
+ * - "context": one buffer per {@link Logger.runWithContext} call, shared by
+ *   every logger (lines logged outside any context share one buffer)
+ */
+export type FlightRecorderScope = (typeof FLIGHT_RECORDER_SCOPES)[number];
+
+/** Keeps recent log calls in memory, including those below the log level. */
+export interface FlightRecorderOptions<L extends string = never> {
+  /**
+   * Maximum log calls kept per buffer. Defaults to 100. Buffers of the
+   * "module" and "context" scopes keep the size of the logger that
+   * recorded into them first.
+   */
+  size?: number;
+  /**
+   * Lines at or above this level write out the buffered lines that were not
+   * written yet, just before themselves. Defaults to "error".
+   */
+  triggerLevel?: LogLevel | L;
+  /** Defaults to "logger". */
+  scope?: FlightRecorderScope;
+}
+
+/** @internal A recorded log call, replayed by calling `write`. */
+export interface RecordedEntry {
+  written: boolean;
+  write: () => void;
+}
+
+// Fixed-size buffer overwriting its oldest entry when full
+class RingBuffer {
+  private size: number;
+  private entries: RecordedEntry[] = [];
+  private start = 0;
+
+  constructor(size: number) {
+    this.size = size;
+  }
+
+  push(entry: RecordedEntry): void {
+    if (this.entries.length < this.size) {
+      this.entries.push(entry);
+      return;
+    }
+    this.entries[this.start] = entry;
+    this.start = (this.start + 1) % this.size;
+  }
+
+  // Remove and return every entry, oldest first
+  drain(): RecordedEntry[] {
+    const entries = [
+      ...this.entries.slice(this.start),
+      ...this.entries.slice(0, this.start),
+    ];
+    this.entries = [];
+    this.start = 0;
+    return entries;
+  }
+}
+
+// Buffers of the "module" and "context" scopes, shared across logger instances
+const moduleBuffers = new Map<string, RingBuffer>();
+// Buffers disappear together with their async context
+const contextBuffers = new WeakMap<object, RingBuffer>();
+let outsideContextBuffer: RingBuffer | undefined;
+
+/**
+ * @internal Ring buffers of recent log calls, one per scope key. Shared by
+ * a logger and its children; "module" and "context" buffers are shared by
+ * all loggers.
+ */
+export class FlightRecorder {
+  readonly triggerLevel: string;
+  private size: number;
+  private scope: FlightRecorderScope;
+  private shared: RingBuffer | undefined;
+
+  constructor({
+    size = 100,
+    triggerLevel = "error",
+    scope = "logger",
+  }: FlightRecorderOptions<string>) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid flight recorder size: ${size}. Must be a positive integer`);
+    }
+    if (!FLIGHT_RECORDER_SCOPES.includes(scope)) {
+      throw new Error(
+        `Invalid flight recorder scope: "${scope}". Valid scopes: ${FLIGHT_RECORDER_SCOPES.join(", ")}`,
+      );
+    }
+    this.size = size;
+    this.triggerLevel = triggerLevel;
+    this.scope = scope;
+  }
+
+  /** Keep a log call in the buffer of the given module's current scope. */
+  record(module: string, entry: RecordedEntry): void {
+    this.getBuffer(module).push(entry);
+  }
+
+  /** Remove the buffered calls of the module's current scope and write those not written yet. */
+  dump(module: string): void {
+    for (const entry of this.getBuffer(module).drain()) {
+      if (!entry.written) entry.write();
+    }
+  }
+
+  private getBuffer(module: string): RingBuffer {
+    if (this.scope === "module") {
+      let buffer = moduleBuffers.get(module);
+      if (!buffer) {
+        buffer = new RingBuffer(this.size);
+        moduleBuffers.set(module, buffer);
+      }
+      return buffer;
+    }
+    if (this.scope === "context") {
+      const store = getContextStore();
+      if (!store) {
+        outsideContextBuffer ??= new RingBuffer(this.size);
+        return outsideContextBuffer;
+      }
+      let buffer = contextBuffers.get(store);
+      if (!buffer) {
+        buffer = new RingBuffer(this.size);
+        contextBuffers.set(store, buffer);
+      }
+      return buffer;
+    }
+    this.shared ??= new RingBuffer(this.size);
+    return this.shared;
+  }
+}
@@ -0,0 +1,123 @@
+/** Options for censoring sensitive data before it is written. */
+export interface RedactOptions {
+  /**
+   * Key paths whose values are replaced, relative to each logged value
+   * (message, every arg, and the bound context fields). Segments are separated
+   * by dots and `*` matches any single key, e.g. `password`,
+   * `headers.authorization` or `*.token`. Class instances are matched by
+   * their `toJSON()` output, or logged unchanged if they have none.
+   */
+  paths?: string[];
+  /** Patterns replaced wherever they appear in string values, including error messages and stacks. */
+  patterns?: RegExp[];
+  /** Replacement for redacted values. Defaults to "[REDACTED]". */
+  censor?: string;
+}
+
+/** @internal Returns a redacted copy of a value. */
+export type Redactor = (value: unknown) => unknown;
+
+// Values copied as-is: their contents are not plain key/value data
+function isOpaque(value: object): boolean {
+  return (
+    value instanceof Date ||
+    value instanceof RegExp ||
+    value instanceof Map ||
+    value instanceof Set ||
+    value instanceof Promise ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value)
+  );
+}
+
+// Objects whose keys are all their data, safe to rebuild key by key
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/** @internal Build a function that censors configured paths and patterns. */
+export function createRedactor({
+  paths = [],
+  patterns = [],
+  censor = "[REDACTED]",
+}: RedactOptions): Redactor {
+  const pathSegments = paths.map((path) => path.split("."));
+  // Global copies so every occurrence is replaced
+  const globalPatterns = patterns.map((pattern) =>
+    pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + "g"),
+  );
+
+  const matchesPath = (path: string[]): boolean =>
+    pathSegments.some(
+      (segments) =>
+        segments.length === path.length &&
+        segments.every((segment, i) => segment === "*" || segment === path[i]),
+    );
+
+  const redactString = (value: string): string =>
+    globalPatterns.reduce(
+      (result, pattern) => result.replace(pattern, censor),
+      value,
+    );
+
+  const redact = (
+    value: unknown,
+    path: string[],
+    seen: Map<object, unknown>,
+  ): unknown => {
+    if (path.length > 0 && matchesPath(path)) return censor;
+    if (typeof value === "string") return redactString(value);
+    if (typeof value !== "object" || value === null || isOpaque(value)) {
+      return value;
+    }
+    // Circular references point at the copy already being built
+    if (seen.has(value)) return seen.get(value);
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      value.forEach((item, i) => {
+        copy.push(redact(item, [...path, String(i)], seen));
+      });
+      return copy;
+    }
+
+    if (!isPlainObject(value) && !(value instanceof Error)) {
+      // Class instances keep internal state a copy would lose (URL, Headers):
+      // redact what they serialize to, or log them as they are
+      const toJSON = (value as { toJSON?: unknown }).toJSON;
+      if (typeof toJSON !== "function") return value;
+      return redact(toJSON.call(value), path, seen);
+    }
+
+    const copy = Object.create(Object.getPrototypeOf(value)) as Record<
+      string,
+      unknown
+    >;
+    seen.set(value, copy);
+    const keys = new Set(Object.keys(value));
+    if (value instanceof Error) {
+      // Own but non-enumerable on Error instances (errors on AggregateError)
+      for (const key of ["message", "stack", "cause", "errors"]) {
+        if (Object.hasOwn(value, key)) keys.add(key);
+      }
+    }
+    for (const key of keys) {
+      const redacted = redact(
+        (value as Record<string, unknown>)[key],
+        [...path, key],
+        seen,
+      );
+      Object.defineProperty(copy, key, {
+        value: redacted,
+        enumerable: Object.prototype.propertyIsEnumerable.call(value, key),
+        writable: true,
+        configurable: true,
+      });
+    }
+    return copy;
+  };
+
+  return (value) => redact(value, [], new Map());
+}
@@ -0,0 +1,86 @@
+import type { LogLevel } from "./common";
+import type { LevelTable } from "./levels";
+
+/** Minimal writable stream interface (compatible with NodeJS.WriteStream). */
+export interface WriteStream {
+  write(chunk: string): unknown;
+}
+
+/** @internal */
+export const OUTPUT_FORMATS = ["text", "jsonl", "logfmt", "otel", "syslog"] as const;
+
+/** Output format of a log line. */
+export type LoggerOutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** A destination for log lines with its own level range and format. */
+export interface LogSink<L extends string = never> {
+  /** Stream the formatted lines are written to. */
+  stream: WriteStream;
+  /** Minimum level written to this sink. Defaults to the lowest level. */
+  level?: LogLevel | L;
+  /** Maximum level written to this sink. Defaults to the highest level. */
+  maxLevel?: LogLevel | L;
+  /** Output format for this sink. Defaults to "text". */
+  format?: LoggerOutputFormat;
+  /** Colorize "text" output. Defaults to the detected terminal color support. */
+  color?: boolean;
+}
+
+// Sinks built from the stdout/stderr options follow each level's stream instead of a range
+interface RoutedSink extends LogSink {
+  route?: "stdout" | "stderr";
+}
+
+/** @internal Check whether a sink accepts a level known to the table. */
+export function sinkAccepts(
+  sink: LogSink<string>,
+  level: string,
+  levels: LevelTable,
+): boolean {
+  const info = levels.get(level)!;
+  const { route } = sink as RoutedSink;
+  if (route !== undefined) return info.stream === route;
+  const min = sink.level === undefined ? -Infinity : levels.get(sink.level)!.severity;
+  const max =
+    sink.maxLevel === undefined ? Infinity : levels.get(sink.maxLevel)!.severity;
+  return info.severity >= min && info.severity <= max;
+}
+
+/**
+ * @internal Build the sinks described by the stdout/stderr shorthand options.
+ * Text and logfmt output (and jsonl with split streams) route debug/info to stdout and
+ * warn/error/fatal to stderr (custom levels by their `stream`); unified jsonl
+ * and otel write every level to stdout.
+ */
+export function createDefaultSinks(
+  format: LoggerOutputFormat,
+  splitStreams: boolean,
+  stdout: WriteStream,
+  stderr: WriteStream,
+): LogSink[] {
+  if ((format === "jsonl" || format === "otel") && !splitStreams) {
+    return [{ stream: stdout, format }];
+  }
+  const sinks: RoutedSink[] = [
+    { stream: stdout, format, route: "stdout" },
+    { stream: stderr, format, route: "stderr" },
+  ];
+  return sinks;
+}
+
+// Streams that can be ended (NodeJS.WritableStream) or closed (RotatingFileStream)
+interface ClosableStream extends WriteStream {
+  end?(callback?: () => void): unknown;
+  close?(): unknown;
+}
+
+/** @internal End a stream owned by the logger. Process stdio is left open. */
+export async function closeStream(stream: ClosableStream): Promise<void> {
+  if (stream === process.stdout || stream === process.stderr) return;
+  if (typeof stream.end === "function") {
+    const end = stream.end.bind(stream);
+    await new Promise<void>((resolve) => end(resolve));
+  } else if (typeof stream.close === "function") {
+    await stream.close();
+  }
+}
@@ -0,0 +1,43 @@
+import { randomBytes } from "node:crypto";
+import { formatDuration, type TimerFormat } from "./duration";
+
+/** @internal A timer's place in a span tree. */
+export interface SpanNode {
+  name: string;
+  /** Milliseconds from start to end, or elapsed so far while running. */
+  durationMs: number;
+  running: boolean;
+  children: SpanNode[];
+}
+
+/** @internal Generate a span id (8 random bytes as hex, like W3C trace context). */
+export function createSpanId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * @internal Render a span tree as indented text lines, e.g.
+ * ```
+ * request 120ms
+ * ├─ db.query 80ms
+ * │  └─ parse 5ms
+ * └─ render 30ms (running)
+ * ```
+ */
+export function renderSpanTree(root: SpanNode, format: TimerFormat): string {
+  const lines: string[] = [];
+  const visit = (node: SpanNode, prefix: string, childPrefix: string): void => {
+    const duration = formatDuration(node.durationMs, format);
+    lines.push(`${prefix}${node.name} ${duration}${node.running ? " (running)" : ""}`);
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      visit(
+        child,
+        childPrefix + (last ? "└─ " : "├─ "),
+        childPrefix + (last ? "   " : "│  "),
+      );
+    });
+  };
+  visit(root, "", "");
+  return lines.join("\n");
+}
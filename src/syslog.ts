@@ -0,0 +1,402 @@
+import { createSocket, type Socket as DatagramSocket } from "node:dgram";
+import { connect, type Socket } from "node:net";
+import { hostname } from "node:os";
+import {
+  connectUnixDatagram,
+  supportsUnixDatagrams,
+  type UnixDatagramSocket,
+} from "./datagram";
+import {
+  formatNestedError,
+  isSerializedError,
+  SERIALIZED_ERROR_KEYS,
+  type SerializedError,
+} from "./error";
+import type { WriteStream } from "./sink";
+
+/** Syslog facility names (RFC 5424 section 6.2.1). */
+export const SYSLOG_FACILITIES = [
+  "kern",
+  "user",
+  "mail",
+  "daemon",
+  "auth",
+  "syslog",
+  "lpr",
+  "news",
+  "uucp",
+  "cron",
+  "authpriv",
+  "ftp",
+  "ntp",
+  "security",
+  "console",
+  "solaris-cron",
+  "local0",
+  "local1",
+  "local2",
+  "local3",
+  "local4",
+  "local5",
+  "local6",
+  "local7",
+] as const;
+
+/** Syslog facility, by name or code (0-23). */
+export type SyslogFacility = (typeof SYSLOG_FACILITIES)[number] | number;
+
+/** Header and structured-data settings of "syslog" output. */
+export interface SyslogOptions {
+  /** Defaults to "user". */
+  facility?: SyslogFacility;
+  /** Defaults to the machine's hostname. */
+  hostname?: string;
+  /** Defaults to the logger's module ("-" when unset). */
+  appName?: string;
+  /** Defaults to the process id. */
+  procId?: string | number;
+  /** Defaults to "-". */
+  msgId?: string;
+  /**
+   * SD-ID of the structured-data element holding context fields. Defaults to
+   * "ctx@32473" (the example enterprise number reserved by RFC 5612).
+   */
+  structuredDataId?: string;
+}
+
+// Record keys written to the header, message or error element instead of the context element
+const HEADER_KEYS = new Set([
+  "timestamp",
+  "level",
+  "severity",
+  "message",
+  "module",
+  "args",
+  "errors",
+  "nativeStack",
+]);
+
+/**
+ * @internal Resolve a facility to its code.
+ * @throws Error if the facility is unknown
+ */
+export function getSyslogFacilityCode(facility: SyslogFacility): number {
+  const code =
+    typeof facility === "number" ? facility : SYSLOG_FACILITIES.indexOf(facility);
+  if (!Number.isInteger(code) || code < 0 || code > 23) {
+    throw new Error(
+      `Invalid syslog facility: "${facility}". Valid facilities: ${SYSLOG_FACILITIES.join(", ")} or 0-23`,
+    );
+  }
+  return code;
+}
+
+/**
+ * @internal Map a level severity to a syslog severity: debug 7, info 6,
+ * warn 4, error 3, fatal 2. Custom levels between info and warn map to
+ * notice (5); levels above fatal map to alert (1).
+ */
+export function getSyslogSeverity(severity: number): number {
+  if (severity < 30) return 7;
+  if (severity < 35) return 6;
+  if (severity < 40) return 5;
+  if (severity < 50) return 4;
+  if (severity < 60) return 3;
+  if (severity < 70) return 2;
+  return 1;
+}
+
+// Header fields are printable US-ASCII without spaces, "-" when empty
+function formatHeaderField(value: string, maxLength: number): string {
+  const field = value.replace(/[^\x21-\x7e]/g, "_").slice(0, maxLength);
+  return field || "-";
+}
+
+// SD-NAMEs exclude "=", space, "]" and '"' (RFC 5424 section 6.3.2)
+function formatSdName(name: string): string {
+  return name.replace(/[^\x21-\x7e]|[= \]"]/g, "_").slice(0, 32) || "_";
+}
+
+function formatSdValue(value: unknown): string {
+  const text =
+    typeof value === "string" ? value : JSON.stringify(value) ?? String(value);
+  return text.replace(/["\\\]]/g, "\\$&").replace(/\r?\n/g, "\\n");
+}
+
+function formatSdElement(id: string, params: Array<[string, unknown]>): string {
+  if (params.length === 0) return "";
+  const pairs = params.map(
+    ([name, value]) => ` ${formatSdName(name)}="${formatSdValue(value)}"`,
+  );
+  return `[${formatSdName(id)}${pairs.join("")}]`;
+}
+
+function formatMessagePart(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (isSerializedError(value)) return formatNestedError(value);
+  return JSON.stringify(value);
+}
+
+// Serialized errors (name, message, properties, aggregated errors and cause chain) as `err@...` params
+function errorParams(errors: unknown): Array<[string, unknown]> {
+  if (!Array.isArray(errors)) return [];
+  return errors.flatMap((error: SerializedError, index) => {
+    const properties = Object.entries(error).filter(
+      ([key]) => !SERIALIZED_ERROR_KEYS.has(key),
+    );
+    return [
+      [`${index}.name`, error.name],
+      [`${index}.message`, error.message],
+      ...properties.map(([key, value]): [string, unknown] => [`${index}.${key}`, value]),
+      ...(error.errors ?? []).map((nested, nestedIndex): [string, unknown] => [
+        `${index}.errors.${nestedIndex}`,
+        formatNestedError(nested),
+      ]),
+      ...(error.causes ?? []).map((cause, causeIndex): [string, unknown] => [
+        `${index}.cause.${causeIndex}`,
+        formatNestedError(cause),
+      ]),
+    ];
+  });
+}
+
+/**
+ * @internal Format a JSON-safe record as an RFC 5424 line:
+ * `<PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID [SD] MSG`. Context fields
+ * go to one structured-data element, serialized errors to an `err` element.
+ * Newlines in the message are escaped so each record stays on one line.
+ */
+export function formatSyslog(
+  record: Record<string, unknown>,
+  syslogSeverity: number,
+  options: SyslogOptions,
+): string {
+  const {
+    facility = "user",
+    appName = typeof record["module"] === "string" ? record["module"] : "",
+    procId = process.pid,
+    msgId = "",
+    structuredDataId = "ctx@32473",
+  } = options;
+  const pri = getSyslogFacilityCode(facility) * 8 + syslogSeverity;
+  const header = [
+    `<${pri}>1`,
+    String(record["timestamp"] ?? "-"),
+    formatHeaderField(options.hostname ?? hostname(), 255),
+    formatHeaderField(appName, 48),
+    formatHeaderField(String(procId), 128),
+    formatHeaderField(msgId, 32),
+  ].join(" ");
+
+  const context = Object.entries(record).filter(([key]) => !HEADER_KEYS.has(key));
+  const at = structuredDataId.indexOf("@");
+  const errorId = at === -1 ? "err" : `err${structuredDataId.slice(at)}`;
+  const structuredData =
+    formatSdElement(structuredDataId, context) +
+      formatSdElement(errorId, errorParams(record["errors"])) || "-";
+
+  const args = Array.isArray(record["args"]) ? record["args"] : [];
+  const message = [record["message"], ...args]
+    .map(formatMessagePart)
+    .join(" ")
+    .replace(/\r?\n/g, "\\n");
+  return `${header} ${structuredData} ${message}`;
+}
+
+/** Where and how a {@link SyslogStream} delivers messages. */
+export interface SyslogTransportOptions {
+  /**
+   * Path of a Unix datagram socket, such as `/dev/log` on most Linux
+   * systems, or of a Unix stream socket. Datagram sockets need Bun on Linux
+   * or macOS (written through the C library); on Node, connecting to one is
+   * reported as an error and nothing is sent.
+   */
+  path?: string;
+  /** Host of a UDP/TCP endpoint. Defaults to "127.0.0.1". */
+  host?: string;
+  /** Port of a UDP/TCP endpoint. Defaults to 514. */
+  port?: number;
+  /** Defaults to "unix" when `path` is set, else "udp". */
+  protocol?: "unix" | "udp" | "tcp";
+  /**
+   * Message framing on stream sockets: RFC 6587 octet counting or one message
+   * per line. Defaults to "octet-counting" for TCP and "newline" for Unix sockets.
+   */
+  framing?: "octet-counting" | "newline";
+  /**
+   * Called on socket errors. Defaults to writing each distinct error once
+   * to `process.stderr`.
+   */
+  onError?: (error: Error) => void;
+}
+
+// Report delivery errors on stderr, each distinct message once
+function createStderrReporter(): (error: Error) => void {
+  let last: string | undefined;
+  return (error) => {
+    if (error.message === last) return;
+    last = error.message;
+    process.stderr.write(`SyslogStream: ${error.message}\n`);
+  };
+}
+
+/**
+ * A write stream sending each line as one syslog message to a Unix socket
+ * or a UDP/TCP endpoint. Unix and stream sockets reconnect on the next write
+ * after an error.
+ *
+ * @example
+ * ```ts
+ * const syslog = new SyslogStream({ host: "logs.internal", protocol: "tcp" });
+ * const logger = new Logger({
+ *   module: "appliance",
+ *   sinks: [{ stream: syslog, format: "syslog" }],
+ *   syslog: { facility: "local0" },
+ * });
+ * ```
+ */
+export class SyslogStream implements WriteStream {
+  private protocol: "unix" | "udp" | "tcp";
+  private path: string | undefined;
+  private host: string;
+  private port: number;
+  private framing: "octet-counting" | "newline";
+  private onError: (error: Error) => void;
+  private socket: Socket | undefined;
+  private datagramSocket: DatagramSocket | undefined;
+  private unixDatagramSocket: UnixDatagramSocket | undefined;
+  // Set once the path turned out to be a Unix stream socket
+  private unixStream = false;
+  private pendingDatagrams = 0;
+  private onDatagramsSent: (() => void) | undefined;
+  private partial = "";
+  // Set once the path turned out to be a Unix datagram socket on Node
+  private unsupported = false;
+
+  constructor({
+    path,
+    host = "127.0.0.1",
+    port = 514,
+    protocol = path !== undefined ? "unix" : "udp",
+    framing,
+    onError = createStderrReporter(),
+  }: SyslogTransportOptions = {}) {
+    if (protocol === "unix" && path === undefined) {
+      throw new Error('Invalid syslog transport: "unix" requires a path');
+    }
+    this.protocol = protocol;
+    this.path = path;
+    this.host = host;
+    this.port = port;
+    this.framing = framing ?? (protocol === "tcp" ? "octet-counting" : "newline");
+    this.onError = onError;
+  }
+
+  /** Send every complete line of the chunk as a message. */
+  write(chunk: string): boolean {
+    const lines = (this.partial + chunk).split("\n");
+    this.partial = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line) this.send(line);
+    }
+    return true;
+  }
+
+  private send(message: string): void {
+    if (this.unsupported) return;
+    if (this.protocol === "udp") {
+      this.datagramSocket ??= this.createDatagramSocket();
+      this.pendingDatagrams++;
+      this.datagramSocket.send(message, this.port, this.host, (error) => {
+        if (error) this.onError(error);
+        if (--this.pendingDatagrams === 0) this.onDatagramsSent?.();
+      });
+      return;
+    }
+    if (this.protocol === "unix" && !this.unixStream && supportsUnixDatagrams()) {
+      this.sendUnixDatagram(message);
+      return;
+    }
+    this.socket ??= this.connect();
+    this.socket.write(
+      this.framing === "octet-counting"
+        ? `${Buffer.byteLength(message)} ${message}`
+        : `${message}\n`,
+    );
+  }
+
+  // Unix paths are tried as datagram sockets first; EPROTOTYPE means a stream socket
+  private sendUnixDatagram(message: string): void {
+    try {
+      this.unixDatagramSocket ??= connectUnixDatagram(this.path!);
+      this.unixDatagramSocket.send(message);
+    } catch (error) {
+      if (!this.unixDatagramSocket && (error as NodeJS.ErrnoException).code === "EPROTOTYPE") {
+        this.unixStream = true;
+        this.send(message);
+        return;
+      }
+      this.unixDatagramSocket?.close();
+      this.unixDatagramSocket = undefined;
+      this.onError(error as Error);
+    }
+  }
+
+  private createDatagramSocket(): DatagramSocket {
+    const socket = createSocket(this.host.includes(":") ? "udp6" : "udp4");
+    socket.on("error", this.onError);
+    socket.unref();
+    return socket;
+  }
+
+  private connect(): Socket {
+    const socket =
+      this.protocol === "unix"
+        ? connect({ path: this.path! })
+        : connect({ host: this.host, port: this.port });
+    socket.on("error", (error: NodeJS.ErrnoException) => {
+      if (this.socket === socket) this.socket = undefined;
+      this.onError(this.protocol === "unix" ? this.describeUnixError(error) : error);
+    });
+    socket.on("close", () => {
+      if (this.socket === socket) this.socket = undefined;
+    });
+    // Like the datagram socket, never keep the process alive; close() sends what is queued
+    socket.unref();
+    return socket;
+  }
+
+  // Explain the failure of a stream connection to a datagram socket (Node only)
+  private describeUnixError(error: NodeJS.ErrnoException): Error {
+    if (error.code !== "EPROTOTYPE") return error;
+    this.unsupported = true;
+    return new Error(
+      `Invalid syslog transport: "${this.path}" is a Unix datagram socket, ` +
+        "which needs Bun on Linux or macOS; use a Unix stream socket or a UDP/TCP endpoint",
+      { cause: error },
+    );
+  }
+
+  /** Send any unterminated line and queued messages, then close the socket. */
+  end(callback?: () => void): void {
+    if (this.partial) this.send(this.partial);
+    this.partial = "";
+    const done = () => callback?.();
+    this.unixDatagramSocket?.close();
+    this.unixDatagramSocket = undefined;
+    if (this.datagramSocket) {
+      const socket = this.datagramSocket;
+      this.datagramSocket = undefined;
+      const close = () => socket.close(done);
+      if (this.pendingDatagrams === 0) close();
+      else this.onDatagramsSent = close;
+    } else if (this.socket && !this.socket.destroyed) {
+      const socket = this.socket;
+      this.socket = undefined;
+      socket.once("error", done);
+      socket.end(done);
+    } else {
+      done();
+    }
+  }
+}
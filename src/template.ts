@@ -0,0 +1,102 @@
+import { COLORS } from "./color";
+import type { LogContext } from "./common";
+import type { TimerLap, TimerThreshold } from "./duration";
+import { getDurationColor } from "./layout";
+
+/** Structured record passed to a custom text formatter. */
+export interface TextLogRecord {
+  /** Level name, built-in or custom. */
+  level: string;
+  time: Date;
+  /** Module name, or "" when unset. */
+  module: string;
+  /** Bound and ambient context fields. */
+  context: LogContext;
+  /** Formatted timer duration, for timer logs. */
+  duration?: string;
+  /** Timer duration in milliseconds, for timer logs. */
+  durationMs?: number;
+  /** Recorded laps, for timer summaries logged by `end`/`stop`. */
+  laps?: TimerLap[];
+  /** Timer threshold exceeded when the record was logged. */
+  thresholdExceeded?: TimerThreshold;
+  /** Original message value. */
+  message: unknown;
+  /** Original additional values. */
+  args: unknown[];
+  /** Message and args rendered as text (the default layout's line body). */
+  text: string;
+  /**
+   * True for the extra lines of an error/fatal record (cause chain and stack
+   * traces), where `text` holds the line and `args` is empty.
+   */
+  continuation: boolean;
+}
+
+/** Colorization helpers passed to a custom text formatter. */
+export interface TextFormatHelpers {
+  /** Whether the destination accepts ANSI colors (honors NO_COLOR/FORCE_COLOR). */
+  useColor: boolean;
+  /** Wrap text in a color code, or return it unchanged when colors are off. */
+  colorize(text: string, color: string): string;
+  /** ANSI color codes. */
+  colors: typeof COLORS;
+  /** Color code for the record's level. */
+  levelColor: string;
+  /** Color code for the record's module. */
+  moduleColor: string;
+  /** Render `context` as compact `key=value` pairs ("" when empty). */
+  formatContext(context: LogContext): string;
+}
+
+/** Formats one text line (without the trailing newline). */
+export type TextFormatter = (
+  record: TextLogRecord,
+  helpers: TextFormatHelpers,
+) => string;
+
+type Placeholder = (record: TextLogRecord, helpers: TextFormatHelpers) => string;
+
+const PLACEHOLDERS: Record<string, Placeholder> = {
+  timestamp: (record, { colorize, colors }) =>
+    colorize(record.time.toISOString(), colors.dim),
+  time: (record, { colorize, colors }) =>
+    colorize(record.time.toISOString().slice(11, 23), colors.dim),
+  level: (record, { colorize, levelColor }) =>
+    colorize(`[${record.level.toUpperCase()}]`, levelColor),
+  levelShort: (record, { colorize, levelColor }) =>
+    colorize(record.level[0]!.toUpperCase(), levelColor),
+  module: (record, { colorize, moduleColor }) =>
+    record.module ? colorize(`[${record.module}]`, moduleColor) : "",
+  context: (record, { colorize, colors, formatContext }) => {
+    const context = formatContext(record.context);
+    return context ? colorize(context, colors.dim) : "";
+  },
+  duration: (record, { colorize }) =>
+    record.duration !== undefined
+      ? colorize(`[${record.duration}]`, getDurationColor(record.thresholdExceeded))
+      : "",
+  message: (record) => record.text,
+};
+
+/**
+ * @internal Compile a line template such as `"{levelShort} {module} {message}"`.
+ * Placeholders: `{timestamp}`, `{time}`, `{level}`, `{levelShort}`, `{module}`,
+ * `{context}`, `{duration}` and `{message}`. An empty placeholder also drops
+ * the single space after it, so optional tags don't leave double spaces.
+ * @throws Error if the template contains an unknown placeholder
+ */
+export function compileTemplate(template: string): TextFormatter {
+  for (const [, name] of template.matchAll(/\{(\w+)\}/g)) {
+    if (!(name! in PLACEHOLDERS)) {
+      throw new Error(
+        `Invalid template placeholder: "{${name}}". Valid placeholders: ${Object.keys(PLACEHOLDERS).join(", ")}`,
+      );
+    }
+  }
+  return (record, helpers) =>
+    template.replace(/\{(\w+)\}( ?)/g, (_match, name: string, space: string) => {
+      const value = PLACEHOLDERS[name]!(record, helpers);
+      return value ? value + space : "";
+    });
+}
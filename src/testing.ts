@@ -0,0 +1,277 @@
+import { inspect } from "util";
+import type { LevelMethods, LogContext, LogLevel } from "./common";
+import type { SerializedError } from "./error";
+import { Logger, type LoggerOptions } from "./logger";
+import type { WriteStream } from "./sink";
+
+/** A serialized error of a captured entry. */
+export type CapturedError = SerializedError;
+
+/** A log record captured by a {@link CaptureStream}, as structured data. */
+export interface CapturedEntry {
+  timestamp: string;
+  level: string;
+  module?: string;
+  message: unknown;
+  /** Args in their JSON form (errors serialized). */
+  args: unknown[];
+  /** Errors among the message and args of error-like levels. */
+  errors: CapturedError[];
+  /** Elapsed time of timer records. */
+  duration?: string;
+  durationMs?: number;
+  /** Bound, ambient and trace fields. */
+  fields: LogContext;
+  /** The complete jsonl record. */
+  record: Record<string, unknown>;
+}
+
+/** Criteria for selecting captured entries. All given criteria must match. */
+export interface LogMatcher<L extends string = never> {
+  /** Exact level. */
+  level?: LogLevel | L;
+  /** Exact module name. */
+  module?: string;
+  /** Exact message, or a pattern it must match. Non-string messages match by their JSON. */
+  message?: string | RegExp;
+  /** Exact message of a logged error, or a pattern matching `Name: message` of one. */
+  error?: string | RegExp;
+  /** Fields the entry must have, compared by their JSON encoding. */
+  fields?: LogContext;
+}
+
+// Keys of a jsonl record mapped to CapturedEntry properties other than fields
+const ENTRY_KEYS = new Set([
+  "timestamp",
+  "level",
+  "severity",
+  "module",
+  "message",
+  "args",
+  "errors",
+  "nativeStack",
+  "duration",
+  "durationMs",
+]);
+
+function toEntry(record: Record<string, unknown>): CapturedEntry {
+  const fields: LogContext = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!ENTRY_KEYS.has(key)) fields[key] = value;
+  }
+  const entry: CapturedEntry = {
+    timestamp: record["timestamp"] as string,
+    level: record["level"] as string,
+    message: record["message"],
+    args: (record["args"] as unknown[] | undefined) ?? [],
+    errors: (record["errors"] as CapturedError[] | undefined) ?? [],
+    fields,
+    record,
+  };
+  if (record["module"] !== undefined) entry.module = record["module"] as string;
+  if (record["duration"] !== undefined) entry.duration = record["duration"] as string;
+  if (record["durationMs"] !== undefined) {
+    entry.durationMs = record["durationMs"] as number;
+  }
+  return entry;
+}
+
+function matchText(text: string, expected: string | RegExp): boolean {
+  return typeof expected === "string" ? text === expected : expected.test(text);
+}
+
+function matchesEntry(entry: CapturedEntry, matcher: LogMatcher<string>): boolean {
+  if (matcher.level !== undefined && entry.level !== matcher.level) return false;
+  if (matcher.module !== undefined && entry.module !== matcher.module) return false;
+  if (matcher.message !== undefined) {
+    const text =
+      typeof entry.message === "string" ? entry.message : JSON.stringify(entry.message);
+    if (!matchText(text, matcher.message)) return false;
+  }
+  if (matcher.error !== undefined) {
+    const expected = matcher.error;
+    const found = entry.errors.some((error) =>
+      typeof expected === "string"
+        ? error.message === expected
+        : expected.test(`${error.name}: ${error.message}`),
+    );
+    if (!found) return false;
+  }
+  for (const [key, value] of Object.entries(matcher.fields ?? {})) {
+    if (JSON.stringify(entry.fields[key]) !== JSON.stringify(value)) return false;
+  }
+  return true;
+}
+
+// One line per entry for assertion messages
+function describeEntry(entry: CapturedEntry): string {
+  const module = entry.module ? ` [${entry.module}]` : "";
+  const message =
+    typeof entry.message === "string" ? entry.message : JSON.stringify(entry.message);
+  return `  ${entry.level.toUpperCase()}${module} ${message}`;
+}
+
+function describeEntries(entries: CapturedEntry[]): string {
+  if (entries.length === 0) return "No entries were captured";
+  return `Captured entries:\n${entries.map(describeEntry).join("\n")}`;
+}
+
+/**
+ * A write stream for a "jsonl" sink that keeps every record as a structured
+ * entry, for asserting on log output in tests. Pair it with `fatal: "log"`
+ * (or "throw") so fatal calls do not exit the test runner, or use
+ * {@link MemoryLogger}, which does both.
+ *
+ * @example
+ * ```ts
+ * const capture = new CaptureStream();
+ * const logger = new Logger({
+ *   sinks: [{ stream: capture, format: "jsonl" }],
+ *   fatal: "log",
+ * });
+ * await handler(logger);
+ * capture.expectLogged({ level: "error", message: /timeout/ });
+ * ```
+ */
+export class CaptureStream implements WriteStream {
+  /** Captured entries, oldest first. */
+  readonly entries: CapturedEntry[] = [];
+  private partial = "";
+
+  write(chunk: string): boolean {
+    const lines = (this.partial + chunk).split("\n");
+    this.partial = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line) this.entries.push(toEntry(JSON.parse(line)));
+    }
+    return true;
+  }
+
+  /** Forget all captured entries. */
+  clear(): void {
+    this.entries.length = 0;
+    this.partial = "";
+  }
+
+  /** Captured entries matching all given criteria. */
+  filter<L extends string = never>(matcher: LogMatcher<L>): CapturedEntry[] {
+    return this.entries.filter((entry) => matchesEntry(entry, matcher));
+  }
+
+  /** The first captured entry matching all given criteria. */
+  find<L extends string = never>(matcher: LogMatcher<L>): CapturedEntry | undefined {
+    return this.entries.find((entry) => matchesEntry(entry, matcher));
+  }
+
+  /**
+   * Assert that an entry matching all given criteria was captured.
+   * @returns the first matching entry
+   * @throws Error listing the captured entries if none matches
+   */
+  expectLogged<L extends string = never>(matcher: LogMatcher<L>): CapturedEntry {
+    const entry = this.find(matcher);
+    if (!entry) {
+      throw new Error(
+        `Expected a log entry matching ${inspect(matcher)}. ${describeEntries(this.entries)}`,
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Assert that no entry matching all given criteria was captured.
+   * @throws Error listing the matching entries if any
+   */
+  expectNotLogged<L extends string = never>(matcher: LogMatcher<L>): void {
+    const matches = this.filter(matcher);
+    if (matches.length > 0) {
+      throw new Error(
+        `Expected no log entry matching ${inspect(matcher)}. ${describeEntries(matches)}`,
+      );
+    }
+  }
+}
+
+/** Options of a {@link MemoryLogger}: logger options without output settings. */
+export type MemoryLoggerOptions<L extends string = never> = Omit<
+  LoggerOptions<L>,
+  | "outputFormat"
+  | "jsonlSplitStreams"
+  | "stdout"
+  | "stderr"
+  | "sinks"
+  | "buffered"
+  | "fatal"
+> & {
+  /** What a fatal call does after it was captured. Defaults to "log". */
+  fatal?: "log" | "throw";
+};
+
+/**
+ * A logger that captures every record as a structured entry instead of
+ * writing it, with assertion helpers. Logs from its children and timers are
+ * captured too. The log level defaults to "debug", and fatal calls never
+ * exit the process.
+ *
+ * @example
+ * ```ts
+ * const logger = new MemoryLogger({ module: "api" });
+ * await fetchWithRetry(logger);
+ * logger.expectLogged({ level: "warn", message: /retrying/, fields: { attempt: 2 } });
+ * logger.expectNotLogged({ level: "error" });
+ * ```
+ */
+export class MemoryLogger<L extends string = never> extends Logger<L> {
+  /** Create a memory logger whose custom level methods are typed. */
+  static override create<L extends string = never>(
+    options?: MemoryLoggerOptions<L>,
+  ): MemoryLogger<L> & LevelMethods<L> {
+    return new MemoryLogger(options) as MemoryLogger<L> & LevelMethods<L>;
+  }
+
+  /** The stream holding the captured entries. */
+  readonly capture: CaptureStream;
+
+  constructor({ logLevel, fatal = "log", ...options }: MemoryLoggerOptions<L> = {}) {
+    const capture = new CaptureStream();
+    super({
+      ...options,
+      logLevel: logLevel ?? "debug",
+      sinks: [{ stream: capture, format: "jsonl" }],
+      fatal,
+    });
+    this.capture = capture;
+  }
+
+  /** Captured entries, oldest first. */
+  get entries(): CapturedEntry[] {
+    return this.capture.entries;
+  }
+
+  /** Forget all captured entries. */
+  clear(): void {
+    this.capture.clear();
+  }
+
+  /** Captured entries matching all given criteria. */
+  findAllLogged(matcher: LogMatcher<L>): CapturedEntry[] {
+    return this.capture.filter(matcher);
+  }
+
+  /**
+   * Assert that an entry matching all given criteria was captured.
+   * @returns the first matching entry
+   * @throws Error listing the captured entries if none matches
+   */
+  expectLogged(matcher: LogMatcher<L>): CapturedEntry {
+    return this.capture.expectLogged(matcher);
+  }
+
+  /**
+   * Assert that no entry matching all given criteria was captured.
+   * @throws Error listing the matching entries if any
+   */
+  expectNotLogged(matcher: LogMatcher<L>): void {
+    this.capture.expectNotLogged(matcher);
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import { RotatingFileStream } from "../src/file";
+import { Logger } from "../src/logger";
+
+describe("RotatingFileStream", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sml-file-"));
+    path = join(dir, "logs", "app.log");
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("creates parent directories and appends lines", () => {
+    const file = new RotatingFileStream({ path });
+    file.write("one\n");
+    file.write("two\n");
+    file.close();
+    expect(readFileSync(path, "utf8")).toBe("one\ntwo\n");
+  });
+
+  test("rotates by size without splitting lines", () => {
+    const file = new RotatingFileStream({ path, maxSize: 10 });
+    file.write("aaaa\n");
+    file.write("bbbb\n");
+    file.write("cccc\n");
+    file.close();
+    expect(readFileSync(`${path}.1`, "utf8")).toBe("aaaa\nbbbb\n");
+    expect(readFileSync(path, "utf8")).toBe("cccc\n");
+  });
+
+  test("keeps at most maxFiles rotated files", () => {
+    const file = new RotatingFileStream({ path, maxSize: 5, maxFiles: 2 });
+    for (const line of ["111\n", "222\n", "333\n", "444\n"]) {
+      file.write(line);
+    }
+    file.close();
+    expect(readFileSync(path, "utf8")).toBe("444\n");
+    expect(readFileSync(`${path}.1`, "utf8")).toBe("333\n");
+    expect(readFileSync(`${path}.2`, "utf8")).toBe("222\n");
+    expect(existsSync(`${path}.3`)).toBe(false);
+  });
+
+  test("rotates when the interval changes", () => {
+    setSystemTime(new Date("2026-01-01T10:59:00Z"));
+    const file = new RotatingFileStream({ path, interval: "hour" });
+    file.write("before\n");
+    setSystemTime(new Date("2026-01-01T11:00:00Z"));
+    file.write("after\n");
+    file.close();
+    expect(readFileSync(`${path}.1`, "utf8")).toBe("before\n");
+    expect(readFileSync(path, "utf8")).toBe("after\n");
+  });
+
+  test("gzips rotated files when compress is enabled", async () => {
+    const file = new RotatingFileStream({ path, maxSize: 5, compress: true });
+    file.write("old\n");
+    file.write("new\n");
+    await file.close();
+    const rotated = gunzipSync(readFileSync(`${path}.1.gz`)).toString();
+    expect(rotated).toBe("old\n");
+    expect(readFileSync(path, "utf8")).toBe("new\n");
+    expect(readdirSync(dirname(path)).sort()).toEqual(["app.log", "app.log.1.gz"]);
+  });
+
+  test("compresses in the background, keeping rotated files in order", async () => {
+    const file = new RotatingFileStream({ path, maxSize: 5, maxFiles: 2, compress: true });
+    for (const line of ["111\n", "222\n", "333\n", "444\n"]) {
+      file.write(line);
+    }
+    expect(existsSync(`${path}.1.gz`)).toBe(false);
+    await file.close();
+    expect(readFileSync(path, "utf8")).toBe("444\n");
+    expect(gunzipSync(readFileSync(`${path}.1.gz`)).toString()).toBe("333\n");
+    expect(gunzipSync(readFileSync(`${path}.2.gz`)).toString()).toBe("222\n");
+    expect(readdirSync(dirname(path))).toHaveLength(3);
+  });
+
+  test("counts existing file contents toward maxSize", () => {
+    const file = new RotatingFileStream({ path, maxSize: 8 });
+    file.write("first\n");
+    file.close();
+    const reopened = new RotatingFileStream({ path, maxSize: 8 });
+    reopened.write("second\n");
+    reopened.close();
+    expect(readFileSync(`${path}.1`, "utf8")).toBe("first\n");
+  });
+
+  test("throws when writing after close", () => {
+    const file = new RotatingFileStream({ path });
+    file.close();
+    expect(() => file.write("late\n")).toThrow("Cannot write to closed log file");
+  });
+
+  test("plugs into Logger as an output stream", () => {
+    const file = new RotatingFileStream({ path });
+    const logger = new Logger({ outputFormat: "jsonl", stdout: file });
+    logger.info("to file");
+    file.close();
+    const record = JSON.parse(readFileSync(path, "utf8").trim());
+    expect(record["message"]).toBe("to file");
+  });
+
+  test("rejects invalid options", () => {
+    expect(() => new RotatingFileStream({ path, maxSize: 0 })).toThrow(
+      "Invalid maxSize",
+    );
+    expect(() => new RotatingFileStream({ path, maxFiles: -1 })).toThrow(
+      "Invalid maxFiles",
+    );
+  });
+});
@@ -1,5 +1,7 @@
-import { describe, test, expect, beforeEach } from "bun:test";
-import { Logger, type WriteStream } from "../src/logger";
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { EventEmitter } from "node:events";
+import { FatalError, Logger, type LoggerOptions, type WriteStream } from "../src/logger";
+import type { TextLogRecord } from "../src/template";
 
 // Helper to create a mock stream that captures output
 function createMockStream(): WriteStream & { output: string; lines: string[] } {
@@ -144,6 +146,75 @@ describe("Logger", () => {
     });
   });
 
+  describe("format string interpolation", () => {
+    test("replaces placeholders and consumes args in text mode", () => {
+      logger.info("User %s has %d items (%i%%)", "alice", 3, 42.7, { extra: 1 });
+      const output = stripAnsi(stdout.lines[0]!);
+      expect(output).toContain("User alice has 3 items (42%) { extra: 1 }");
+    });
+
+    test("supports %f, %j, %o and %O", () => {
+      logger.info("%f %j %O", "1.5", { a: [1] }, { b: 2 });
+      expect(stripAnsi(stdout.lines[0]!)).toContain('1.5 {"a":[1]} { b: 2 }');
+    });
+
+    test("leaves placeholders without args untouched", () => {
+      logger.info("%s and %s", "one");
+      expect(stripAnsi(stdout.lines[0]!)).toContain("one and %s");
+    });
+
+    test("handles circular values in %j", () => {
+      const node: Record<string, unknown> = {};
+      node["self"] = node;
+      logger.info("%j", node);
+      expect(stripAnsi(stdout.lines[0]!)).toContain('{"self":"[Circular]"}');
+    });
+
+    test("keeps the template in jsonl records", () => {
+      const jsonLogger = new Logger({
+        outputFormat: "jsonl",
+        stdout,
+        stderr,
+      });
+      jsonLogger.info("Request %s took %dms", "/users", 12, { ok: true });
+
+      const line = parseJsonLine(stdout.lines[0]!);
+      expect(line["message"]).toBe("Request /users took 12ms");
+      expect(line["msgTemplate"]).toBe("Request %s took %dms");
+      expect(line["args"]).toEqual([{ ok: true }]);
+    });
+
+    test("omits the template for plain messages", () => {
+      const jsonLogger = new Logger({
+        outputFormat: "jsonl",
+        stdout,
+        stderr,
+      });
+      jsonLogger.info("100% plain", 1);
+      const line = parseJsonLine(stdout.lines[0]!);
+      expect(line["message"]).toBe("100% plain");
+      expect(line["msgTemplate"]).toBeUndefined();
+    });
+
+    test("keeps errors consumed by placeholders", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", stdout, stderr });
+      jsonLogger.error("failed: %s", new Error("boom"));
+      const line = parseJsonLine(stdout.lines[0]!);
+      expect(line["message"]).toBe("failed: Error: boom");
+      expect((line["errors"] as Array<Record<string, unknown>>)[0]!["message"]).toBe("boom");
+
+      logger.error("failed: %s", new Error("boom"));
+      const output = stripAnsi(stderr.output);
+      expect(output).toContain("failed: Error: boom");
+      expect(output).toMatch(/\n.*  Error: boom\n.*    at /);
+    });
+
+    test("applies to timer messages", () => {
+      logger.timer({ format: "raw" }).info("Loaded %d rows", 5);
+      expect(stripAnsi(stdout.lines[0]!)).toMatch(/\[\d+ms\] Loaded 5 rows$/);
+    });
+  });
+
   describe("jsonl output", () => {
     test("defaults to unified stdout stream", () => {
       const jsonLogger = new Logger({
@@ -256,6 +327,952 @@ describe("Logger", () => {
       expect(causes[0]?.["message"]).toBe("Inner error");
       expect(line["nativeStack"]).toEqual(expect.any(String));
     });
+
+    test("includes own error properties such as code and syscall", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", stdout, stderr });
+      const error = Object.assign(new Error("ENOENT: no such file"), {
+        code: "ENOENT",
+        errno: -2,
+        syscall: "open",
+        path: "/etc/app.json",
+      });
+      jsonLogger.error("Config missing", error);
+
+      const [details] = parseJsonLine(stdout.lines[0]!)["errors"] as Array<
+        Record<string, unknown>
+      >;
+      expect(details).toMatchObject({
+        name: "Error",
+        message: "ENOENT: no such file",
+        code: "ENOENT",
+        errno: -2,
+        syscall: "open",
+        path: "/etc/app.json",
+      });
+    });
+
+    test("expands AggregateError errors recursively", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", stdout, stderr });
+      const error = new AggregateError(
+        [
+          Object.assign(new Error("connect ECONNREFUSED ::1:5432"), { code: "ECONNREFUSED" }),
+          new AggregateError([new TypeError("nested")], "inner aggregate"),
+        ],
+        "All attempts failed",
+      );
+      jsonLogger.error("Connect failed", error);
+
+      const [details] = parseJsonLine(stdout.lines[0]!)["errors"] as Array<
+        Record<string, any>
+      >;
+      expect(details!["name"]).toBe("AggregateError");
+      expect(details!["errors"][0]).toMatchObject({
+        message: "connect ECONNREFUSED ::1:5432",
+        code: "ECONNREFUSED",
+      });
+      expect(details!["errors"][1]["errors"][0]).toMatchObject({
+        name: "TypeError",
+        message: "nested",
+      });
+    });
+
+    test("keeps non-Error causes", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", stdout, stderr });
+      jsonLogger.error("A", new Error("outer", { cause: "disk full" }));
+      jsonLogger.error("B", new Error("outer", { cause: { status: 503 } }));
+
+      const causesOf = (line: string) =>
+        (parseJsonLine(line)["errors"] as Array<Record<string, unknown>>)[0]![
+          "causes"
+        ];
+      expect(causesOf(stdout.lines[0]!)).toEqual([{ message: "disk full" }]);
+      expect(causesOf(stdout.lines[1]!)).toEqual([
+        { message: "{ status: 503 }", value: { status: 503 } },
+      ]);
+    });
+
+    test("serializes the cause chain past Error causes to a non-Error cause", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", stdout, stderr });
+      const error = new Error("outer", {
+        cause: Object.assign(new Error("middle", { cause: "root" }), { code: "E_MID" }),
+      });
+      jsonLogger.error("Failed", error);
+
+      const [details] = parseJsonLine(stdout.lines[0]!)["errors"] as Array<
+        Record<string, any>
+      >;
+      expect(details!["causes"]).toHaveLength(2);
+      expect(details!["causes"][0]).toMatchObject({ message: "middle", code: "E_MID" });
+      expect(details!["causes"][0]["causes"]).toBeUndefined();
+      expect(details!["causes"][1]).toEqual({ message: "root" });
+    });
+
+    test("marks errors that contain themselves as circular", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", stdout, stderr });
+      const error = new AggregateError([], "loop");
+      error.errors.push(error);
+      jsonLogger.error("Loop", error);
+
+      const [details] = parseJsonLine(stdout.lines[0]!)["errors"] as Array<
+        Record<string, any>
+      >;
+      expect(details!["errors"]).toEqual([{ message: "[Circular]" }]);
+    });
+  });
+
+  describe("logfmt output", () => {
+    let logfmtLogger: Logger;
+
+    beforeEach(() => {
+      logfmtLogger = new Logger({
+        logLevel: "debug",
+        module: "api",
+        outputFormat: "logfmt",
+        stdout,
+        stderr,
+      });
+    });
+
+    test("writes core fields as key=value pairs", () => {
+      logfmtLogger.info("Server started");
+      expect(stdout.lines[0]).toMatch(
+        /^ts=\S+Z level=info module=api msg="Server started"$/,
+      );
+    });
+
+    test("flattens nested args", () => {
+      logfmtLogger.info("ready", { port: 3000, tls: { enabled: true } }, []);
+      expect(stdout.lines[0]).toContain(
+        "args.0.port=3000 args.0.tls.enabled=true args.1=[]",
+      );
+    });
+
+    test("quotes and escapes values", () => {
+      logfmtLogger.info('say "hi"\nbye', { empty: "", path: "a=b" });
+      const line = stdout.lines[0]!;
+      expect(line).toContain('msg="say \\"hi\\"\\nbye"');
+      expect(line).toContain('args.0.empty=""');
+      expect(line).toContain('args.0.path="a=b"');
+    });
+
+    test("includes context fields", () => {
+      logfmtLogger.child({ requestId: "abc" }).info("ok");
+      expect(stdout.lines[0]).toContain("module=api msg=ok requestId=abc");
+    });
+
+    test("includes error details", () => {
+      const error = new Error("outer", { cause: new Error("inner") });
+      logfmtLogger.error("Failed", error);
+      expect(stderr.lines.length).toBe(1);
+      const line = stderr.lines[0]!;
+      expect(line).toContain("errors.0.message=outer");
+      expect(line).toContain("errors.0.causes.0.message=inner");
+      expect(line).toContain('errors.0.stack="Error: outer\\n');
+      expect(line).toContain("nativeStack=");
+    });
+
+    test("includes timer duration fields", () => {
+      logfmtLogger.timer({ format: "raw" }).info("Done");
+      expect(stdout.lines[0]).toMatch(/module=api msg=Done duration=\d+ms durationMs=\d+$/);
+    });
+  });
+
+  describe("otel output", () => {
+    const trace = { traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7" };
+
+    test("writes the OpenTelemetry log data model", () => {
+      const otelLogger = new Logger({
+        module: "api",
+        outputFormat: "otel",
+        resource: { "service.name": "checkout" },
+        traceContext: () => ({ ...trace, traceFlags: 1 }),
+        stdout,
+      });
+      otelLogger.child({ requestId: "abc" }).warn("Slow %s", "query", { ms: 900 });
+      const record = parseJsonLine(stdout.lines[0]!);
+      expect(record["Timestamp"]).toMatch(/^\d+000000$/);
+      expect(record["SeverityNumber"]).toBe(13);
+      expect(record["SeverityText"]).toBe("WARN");
+      expect(record["Body"]).toBe("Slow query");
+      expect(record["Attributes"]).toEqual({
+        module: "api",
+        requestId: "abc",
+        args: [{ ms: 900 }],
+        msgTemplate: "Slow %s",
+      });
+      expect(record["Resource"]).toEqual({ "service.name": "checkout" });
+      expect(record["TraceId"]).toBe(trace.traceId);
+      expect(record["SpanId"]).toBe(trace.spanId);
+      expect(record["TraceFlags"]).toBe(1);
+    });
+
+    test("maps levels to severity numbers", () => {
+      const otelLogger = Logger.create({
+        logLevel: "trace",
+        levels: { trace: { severity: 10 }, notice: { severity: 35 } },
+        outputFormat: "otel",
+        fatal: "log",
+        stdout,
+      });
+      otelLogger.trace("t");
+      otelLogger.debug("d");
+      otelLogger.info("i");
+      otelLogger.notice("n");
+      otelLogger.warn("w");
+      otelLogger.error("e");
+      otelLogger.fatal("f");
+      const numbers = stdout.lines.map((line) => parseJsonLine(line)["SeverityNumber"]);
+      expect(numbers).toEqual([1, 5, 9, 11, 13, 17, 21]);
+    });
+
+    test("adds exception attributes for errors", () => {
+      const otelLogger = new Logger({ outputFormat: "otel", stdout });
+      otelLogger.error("Failed", new TypeError("bad input"));
+      const attributes = parseJsonLine(stdout.lines[0]!)["Attributes"] as Record<
+        string,
+        unknown
+      >;
+      expect(attributes["exception.type"]).toBe("TypeError");
+      expect(attributes["exception.message"]).toBe("bad input");
+      expect(attributes["exception.stacktrace"]).toContain("TypeError: bad input");
+    });
+
+    test("adds trace context to jsonl records", () => {
+      let active: typeof trace | undefined = trace;
+      const jsonLogger = new Logger({
+        module: "api",
+        outputFormat: "jsonl",
+        traceContext: () => active,
+        stdout,
+      });
+      jsonLogger.info("In span");
+      active = undefined;
+      jsonLogger.info("Outside");
+      const [inSpan, outside] = stdout.lines.map(parseJsonLine);
+      expect(Object.keys(inSpan!).slice(0, 6)).toEqual([
+        "timestamp",
+        "level",
+        "message",
+        "module",
+        "traceId",
+        "spanId",
+      ]);
+      expect(inSpan!["traceId"]).toBe(trace.traceId);
+      expect(outside!["traceId"]).toBeUndefined();
+    });
+  });
+
+  describe("text format", () => {
+    test("renders a template without timestamps", () => {
+      const custom = new Logger({
+        module: "api",
+        textFormat: "{module} {levelShort} {context} {message}",
+        stdout,
+        stderr,
+      });
+      custom.child({ requestId: "abc" }).info("Started", { port: 3000 });
+      expect(stripAnsi(stdout.lines[0]!)).toBe(
+        "[api] I requestId=abc Started { port: 3000 }",
+      );
+    });
+
+    test("drops empty placeholders without leaving double spaces", () => {
+      const custom = new Logger({
+        textFormat: "{level} {module} {duration} {message}",
+        stdout,
+        stderr,
+      });
+      custom.info("Plain");
+      expect(stripAnsi(stdout.lines[0]!)).toBe("[INFO] Plain");
+    });
+
+    test("includes timer durations", () => {
+      const custom = new Logger({
+        textFormat: "{duration} {message}",
+        stdout,
+        stderr,
+      });
+      custom.timer({ format: "raw" }).info("Done");
+      expect(stripAnsi(stdout.lines[0]!)).toMatch(/^\[\d+ms\] Done$/);
+    });
+
+    test("passes the structured record to a formatter function", () => {
+      const records: TextLogRecord[] = [];
+      const custom = new Logger({
+        module: "api",
+        context: { requestId: "abc" },
+        textFormat: (record, { colorize, levelColor }) => {
+          records.push(record);
+          return `${colorize(record.level, levelColor)}|${record.module}|${record.text}`;
+        },
+        stdout,
+        stderr,
+      });
+      custom.warn("Slow", 42);
+
+      expect(stripAnsi(stderr.lines[0]!)).toBe("warn|api|Slow 42");
+      expect(records[0]?.message).toBe("Slow");
+      expect(records[0]?.args).toEqual([42]);
+      expect(records[0]?.context).toEqual({ requestId: "abc" });
+      expect(records[0]?.time).toBeInstanceOf(Date);
+    });
+
+    test("formats error continuation lines with the formatter", () => {
+      const custom = new Logger({
+        textFormat: (record) =>
+          record.continuation ? `> ${record.text}` : record.text,
+        stdout,
+        stderr,
+      });
+      custom.error("Failed:", new Error("outer", { cause: new Error("inner") }));
+      expect(stderr.lines[0]).toBe("Failed: outer");
+      expect(stderr.lines[1]).toBe(">   Caused by: inner");
+      expect(stderr.lines).toContain(">   Stack trace:");
+    });
+
+    test("colorize helper honors sink color settings", () => {
+      const custom = new Logger({
+        sinks: [{ stream: stdout, color: false }],
+        textFormat: (record, { colorize, colors }) =>
+          colorize(record.text, colors.red),
+      });
+      custom.info("Plain");
+      expect(stdout.lines[0]).toBe("Plain");
+    });
+
+    test("throws on unknown template placeholders", () => {
+      expect(() => new Logger({ textFormat: "{pid} {message}" })).toThrow(
+        'Invalid template placeholder: "{pid}"',
+      );
+    });
+  });
+
+  describe("sinks", () => {
+    test("writes to each sink with its own level and format", () => {
+      const terminal = createMockStream();
+      const file = createMockStream();
+      const sinkLogger = new Logger({
+        logLevel: "debug",
+        module: "Test",
+        sinks: [
+          { stream: terminal, level: "info" },
+          { stream: file, format: "jsonl" },
+        ],
+      });
+
+      sinkLogger.debug("Debug detail");
+      sinkLogger.info("Started");
+
+      expect(terminal.lines.length).toBe(1);
+      expect(stripAnsi(terminal.lines[0]!)).toContain("[INFO]");
+      expect(stripAnsi(terminal.lines[0]!)).toContain("Started");
+
+      expect(file.lines.length).toBe(2);
+      expect(parseJsonLine(file.lines[0]!)["level"]).toBe("debug");
+      expect(parseJsonLine(file.lines[1]!)["message"]).toBe("Started");
+    });
+
+    test("respects sink maxLevel", () => {
+      const low = createMockStream();
+      const sinkLogger = new Logger({
+        logLevel: "debug",
+        sinks: [{ stream: low, maxLevel: "info" }],
+      });
+      sinkLogger.info("Kept");
+      sinkLogger.warn("Dropped");
+      expect(low.lines.length).toBe(1);
+    });
+
+    test("logger level still applies to every sink", () => {
+      const out = createMockStream();
+      const sinkLogger = new Logger({
+        logLevel: "warn",
+        sinks: [{ stream: out, format: "jsonl" }],
+      });
+      sinkLogger.info("Dropped");
+      expect(out.lines.length).toBe(0);
+    });
+
+    test("disables colors per sink", () => {
+      const out = createMockStream();
+      const sinkLogger = new Logger({
+        module: "Test",
+        sinks: [{ stream: out, color: false }],
+      });
+      sinkLogger.info("Plain", { a: 1 });
+      expect(out.output).not.toContain("\x1b[");
+    });
+
+    test("writes error details to text sinks", () => {
+      const out = createMockStream();
+      const sinkLogger = new Logger({ sinks: [{ stream: out }] });
+      sinkLogger.error("Failed:", new Error("boom"));
+      const output = stripAnsi(out.output);
+      expect(output).toContain("boom");
+      expect(output).toContain("Stack trace:");
+    });
+
+    test("timer writes duration to both text and jsonl sinks", () => {
+      const text = createMockStream();
+      const json = createMockStream();
+      const sinkLogger = new Logger({
+        sinks: [{ stream: text }, { stream: json, format: "jsonl" }],
+      });
+      sinkLogger.timer({ format: "raw" }).info("Done");
+      expect(stripAnsi(text.lines[0]!)).toMatch(/\[\d+ms\] Done/);
+      const line = parseJsonLine(json.lines[0]!);
+      expect(line["message"]).toBe("Done");
+      expect(line["durationMs"]).toEqual(expect.any(Number));
+    });
+
+    test("child loggers share the parent's sinks", () => {
+      const out = createMockStream();
+      const sinkLogger = new Logger({
+        sinks: [{ stream: out, format: "jsonl" }],
+      });
+      sinkLogger.child({ requestId: "abc" }).info("Child");
+      expect(parseJsonLine(out.lines[0]!)["requestId"]).toBe("abc");
+    });
+  });
+
+  describe("buffered writing", () => {
+    test("batches lines until flushed", async () => {
+      const bufferedLogger = new Logger({
+        logLevel: "debug",
+        buffered: { flushInterval: 1000 },
+        stdout,
+        stderr,
+      });
+      bufferedLogger.info("First");
+      bufferedLogger.info("Second");
+      expect(stdout.lines.length).toBe(0);
+
+      await bufferedLogger.flush();
+      expect(stdout.lines.length).toBe(2);
+      expect(stripAnsi(stdout.lines[1]!)).toContain("Second");
+    });
+
+    test("writes automatically after the flush interval", async () => {
+      const bufferedLogger = new Logger({
+        buffered: { flushInterval: 1 },
+        stdout,
+        stderr,
+      });
+      bufferedLogger.info("Later");
+      await Bun.sleep(20);
+      expect(stdout.lines.length).toBe(1);
+    });
+
+    test("splits output into batches of maxBatchSize", async () => {
+      const writes: string[] = [];
+      const bufferedLogger = new Logger({
+        outputFormat: "jsonl",
+        buffered: { maxBatchSize: 1, flushInterval: 1000 },
+        stdout: { write: (chunk: string) => writes.push(chunk) },
+      });
+      bufferedLogger.info("One");
+      bufferedLogger.info("Two");
+      await bufferedLogger.flush();
+      expect(writes.length).toBe(2);
+    });
+
+    test("waits for drain when the stream applies backpressure", async () => {
+      const writes: string[] = [];
+      const slow = Object.assign(new EventEmitter(), {
+        write(chunk: string) {
+          writes.push(chunk);
+          return false;
+        },
+      });
+      const bufferedLogger = new Logger({
+        outputFormat: "jsonl",
+        buffered: { maxBatchSize: 1, flushInterval: 1000 },
+        stdout: slow,
+      });
+      bufferedLogger.info("One");
+      bufferedLogger.info("Two");
+
+      let flushed = false;
+      const flushing = bufferedLogger.flush().then(() => {
+        flushed = true;
+      });
+      await Bun.sleep(5);
+      expect(writes.length).toBe(1);
+      expect(flushed).toBe(false);
+
+      slow.emit("drain");
+      await Bun.sleep(5);
+      expect(writes.length).toBe(2);
+      slow.emit("drain");
+      await flushing;
+      expect(flushed).toBe(true);
+    });
+
+    test("close flushes and stops accepting lines", async () => {
+      const bufferedLogger = new Logger({
+        buffered: true,
+        stdout,
+        stderr,
+      });
+      bufferedLogger.info("Before close");
+      await bufferedLogger.close();
+      bufferedLogger.info("After close");
+      await bufferedLogger.flush();
+      expect(stdout.lines.length).toBe(1);
+    });
+
+    test("close ends streams that support it", async () => {
+      let ended = false;
+      const closable = {
+        write: () => true,
+        end(callback?: () => void) {
+          ended = true;
+          callback?.();
+        },
+      };
+      const closingLogger = new Logger({ stdout: closable, stderr: closable });
+      await closingLogger.close();
+      expect(ended).toBe(true);
+    });
+
+    test("fatal writes buffered lines before exiting", () => {
+      const exit = spyOn(process, "exit").mockImplementation(
+        (() => {}) as typeof process.exit,
+      );
+      try {
+        const bufferedLogger = new Logger({
+          outputFormat: "jsonl",
+          buffered: { flushInterval: 1000 },
+          stdout,
+        });
+        bufferedLogger.info("Pending");
+        bufferedLogger.fatal("Crash");
+        expect(stdout.lines.length).toBe(2);
+        expect(exit).toHaveBeenCalledWith(1);
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("child loggers share the parent's buffer", async () => {
+      const bufferedLogger = new Logger({
+        buffered: { flushInterval: 1000 },
+        stdout,
+        stderr,
+      });
+      bufferedLogger.child({ requestId: "abc" }).info("From child");
+      await bufferedLogger.flush();
+      expect(stdout.lines.length).toBe(1);
+    });
+  });
+
+  describe("redaction", () => {
+    const redact = {
+      paths: ["password", "headers.authorization", "*.token"],
+      patterns: [/Bearer [\w.-]+/],
+    };
+
+    test("censors key paths in jsonl args", () => {
+      const jsonLogger = new Logger({
+        outputFormat: "jsonl",
+        redact,
+        stdout,
+        stderr,
+      });
+      jsonLogger.info(
+        "Request",
+        { password: "hunter2", user: "alice" },
+        { headers: { authorization: "secret", accept: "*/*" } },
+        { session: { token: "t0k3n", id: 1 } },
+      );
+
+      const args = parseJsonLine(stdout.lines[0]!)["args"] as unknown[];
+      expect(args[0]).toEqual({ password: "[REDACTED]", user: "alice" });
+      expect(args[1]).toEqual({
+        headers: { authorization: "[REDACTED]", accept: "*/*" },
+      });
+      expect(args[2]).toEqual({ session: { token: "[REDACTED]", id: 1 } });
+    });
+
+    test("censors patterns in text output", () => {
+      const textLogger = new Logger({ redact, stdout, stderr });
+      textLogger.info("Auth: Bearer abc.def", { note: "Bearer xyz" });
+      const output = stripAnsi(stdout.lines[0]!);
+      expect(output).not.toContain("abc.def");
+      expect(output).not.toContain("xyz");
+      expect(output).toContain("Auth: [REDACTED]");
+    });
+
+    test("censors paths in text output", () => {
+      const textLogger = new Logger({ redact, stdout, stderr });
+      textLogger.info("Login", { password: "hunter2" });
+      expect(stripAnsi(stdout.lines[0]!)).not.toContain("hunter2");
+    });
+
+    test("does not mutate the logged values", () => {
+      const textLogger = new Logger({ redact, stdout, stderr });
+      const payload = { password: "hunter2" };
+      textLogger.info("Login", payload);
+      expect(payload.password).toBe("hunter2");
+    });
+
+    test("censors error messages, properties and causes", () => {
+      const jsonLogger = new Logger({
+        outputFormat: "jsonl",
+        redact,
+        stdout,
+        stderr,
+      });
+      const cause = new Error("upstream rejected Bearer inner.token");
+      const error = Object.assign(new Error("failed with Bearer outer"), {
+        cause,
+      });
+
+      jsonLogger.error("Failed", error);
+      const output = stdout.lines[0]!;
+      expect(output).not.toContain("inner.token");
+      expect(output).not.toContain("Bearer outer");
+
+      const errors = parseJsonLine(output)["errors"] as Array<
+        Record<string, unknown>
+      >;
+      expect(errors[0]?.["message"]).toBe("failed with [REDACTED]");
+      const causes = errors[0]?.["causes"] as Array<Record<string, unknown>>;
+      expect(causes[0]?.["message"]).toBe("upstream rejected [REDACTED]");
+    });
+
+    test("censors aggregated errors", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", redact, stdout, stderr });
+      jsonLogger.error(
+        "Failed",
+        new AggregateError([new Error("rejected Bearer abc.def")], "all failed"),
+      );
+      const [details] = parseJsonLine(stdout.lines[0]!)["errors"] as Array<
+        Record<string, any>
+      >;
+      expect(details!["errors"][0]["message"]).toBe("rejected [REDACTED]");
+    });
+
+    test("censors secrets split between the template and an arg", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", redact, stdout, stderr });
+      jsonLogger.info("auth: Bearer %s", "abc.def");
+      const line = parseJsonLine(stdout.lines[0]!);
+      expect(line["message"]).toBe("auth: [REDACTED]");
+      expect(line["msgTemplate"]).toBe("auth: Bearer %s");
+      expect(stdout.output).not.toContain("abc.def");
+    });
+
+    test("censors key paths of interpolated objects", () => {
+      const textLogger = new Logger({ redact, stdout, stderr });
+      textLogger.info("Login %o", { password: "hunter2" });
+      expect(stripAnsi(stdout.output)).not.toContain("hunter2");
+    });
+
+    test("censors error cause chains in text output", () => {
+      const textLogger = new Logger({ redact, stdout, stderr });
+      const error = new Error("outer", {
+        cause: new Error("Bearer secret-token"),
+      });
+      textLogger.error("Failed:", error);
+      const output = stripAnsi(stderr.output);
+      expect(output).toContain("Caused by: [REDACTED]");
+      expect(output).not.toContain("secret-token");
+    });
+
+    test("censors context fields", () => {
+      const textLogger = new Logger({
+        redact: { paths: ["apiKey"] },
+        context: { apiKey: "k", requestId: "abc" },
+        stdout,
+        stderr,
+      });
+      textLogger.info("Call");
+      expect(stripAnsi(stdout.lines[0]!)).toContain(
+        "apiKey=[REDACTED] requestId=abc Call",
+      );
+    });
+
+    test("uses a custom censor string", () => {
+      const textLogger = new Logger({
+        redact: { paths: ["password"], censor: "***" },
+        stdout,
+        stderr,
+      });
+      textLogger.child({}).info("Login", { password: "hunter2" });
+      expect(stripAnsi(stdout.lines[0]!)).toContain("***");
+    });
+
+    test("keeps class instances such as URL and Headers intact", () => {
+      const jsonLogger = new Logger({ outputFormat: "jsonl", redact, stdout, stderr });
+      const headers = new Headers({ authorization: "secret", accept: "*/*" });
+      jsonLogger.info("Request", new URL("http://example.com/a"), { headers });
+      const args = parseJsonLine(stdout.lines[0]!)["args"] as unknown[];
+      expect(args[0]).toBe("http://example.com/a");
+      expect(args[1]).toEqual({
+        headers: { authorization: "[REDACTED]", accept: "*/*" },
+      });
+
+      const textLogger = new Logger({ redact, stdout, stderr });
+      textLogger.info("Request", new URL("http://example.com/a"), { headers });
+      const output = stripAnsi(stdout.lines[1]!);
+      expect(output).toContain("http://example.com/a");
+      expect(output).toContain("accept: '*/*'");
+      expect(output).not.toContain("secret");
+    });
+
+    test("handles circular references", () => {
+      const jsonLogger = new Logger({
+        outputFormat: "jsonl",
+        redact,
+        stdout,
+        stderr,
+      });
+      const node: Record<string, unknown> = { password: "hunter2" };
+      node["self"] = node;
+      jsonLogger.info("Circular", node);
+      const args = parseJsonLine(stdout.lines[0]!)["args"] as unknown[];
+      expect(args[0]).toEqual({ password: "[REDACTED]", self: "[Circular]" });
+    });
+  });
+
+  describe("rate limiting", () => {
+    test("suppresses lines over the limit and reports them once", async () => {
+      const limited = new Logger({
+        module: "poller",
+        outputFormat: "jsonl",
+        rateLimit: { limit: 2, windowMs: 20, levels: ["warn"] },
+        stdout,
+      });
+      for (let i = 0; i < 5; i++) limited.warn("Upstream flapping");
+      limited.info("Unlimited level");
+      expect(stdout.lines.length).toBe(3);
+
+      await Bun.sleep(40);
+      expect(stdout.lines.length).toBe(4);
+      const summary = parseJsonLine(stdout.lines[3]!);
+      expect(summary["level"]).toBe("warn");
+      expect(summary["module"]).toBe("poller");
+      expect(summary["suppressed"]).toBe(3);
+      expect(summary["message"]).toContain("Suppressed 3 log lines");
+    });
+
+    test("reports before the first line of the next window", async () => {
+      const limited = new Logger({
+        rateLimit: { limit: 1, windowMs: 20 },
+        stdout,
+        stderr,
+      });
+      limited.info("First");
+      limited.info("Dropped");
+      await Bun.sleep(40);
+      limited.info("Next window");
+      const output = stdout.lines.map(stripAnsi);
+      expect(output.length).toBe(3);
+      expect(output[1]).toContain("Suppressed 1 log lines");
+      expect(output[2]).toContain("Next window");
+    });
+
+    test("limits each message separately when perMessage is set", () => {
+      const limited = new Logger({
+        rateLimit: { limit: 1, perMessage: true },
+        stdout,
+        stderr,
+      });
+      limited.info("a");
+      limited.info("a");
+      limited.info("b");
+      expect(stdout.lines.length).toBe(2);
+    });
+
+    test("never suppresses fatal", () => {
+      const exit = spyOn(process, "exit").mockImplementation(
+        (() => {}) as typeof process.exit,
+      );
+      try {
+        const limited = new Logger({
+          outputFormat: "jsonl",
+          rateLimit: { limit: 0 },
+          stdout,
+        });
+        limited.fatal("Crash");
+        expect(stdout.lines.length).toBe(1);
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("child loggers share the parent's limit", () => {
+      const limited = new Logger({
+        rateLimit: { limit: 1, windowMs: 60000 },
+        stdout,
+        stderr,
+      });
+      limited.info("Parent");
+      limited.child({ requestId: "abc" }).info("Child");
+      expect(stdout.lines.length).toBe(1);
+    });
+
+    test("throws on invalid limits", () => {
+      expect(() => new Logger({ rateLimit: { limit: -1 } })).toThrow(
+        "Invalid rate limit: -1",
+      );
+    });
+  });
+
+  describe("sampling", () => {
+    test("drops lines above the sample rate and marks kept ones", () => {
+      const random = spyOn(Math, "random");
+      try {
+        const sampled = new Logger({
+          outputFormat: "jsonl",
+          sampleRate: { debug: 0.25 },
+          logLevel: "debug",
+          stdout,
+        });
+        random.mockReturnValue(0.5);
+        sampled.debug("Dropped");
+        random.mockReturnValue(0.1);
+        sampled.debug("Kept");
+        sampled.info("Unsampled");
+
+        expect(stdout.lines.length).toBe(2);
+        expect(parseJsonLine(stdout.lines[0]!)["sampleRate"]).toBe(0.25);
+        expect(parseJsonLine(stdout.lines[1]!)["sampleRate"]).toBeUndefined();
+      } finally {
+        random.mockRestore();
+      }
+    });
+
+    test("throws on invalid sample rates", () => {
+      expect(() => new Logger({ sampleRate: 2 })).toThrow(
+        "Invalid sample rate: 2",
+      );
+    });
+  });
+
+  describe("fatal handling", () => {
+    function mockExit() {
+      return spyOn(process, "exit").mockImplementation(
+        (() => {}) as typeof process.exit,
+      );
+    }
+
+    test("exits with code 1 by default", () => {
+      const exit = mockExit();
+      try {
+        logger.fatal("Crash");
+        expect(exit).toHaveBeenCalledWith(1);
+        expect(stripAnsi(stderr.lines[0]!)).toContain("[FATAL]");
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("uses a custom exit code", () => {
+      const exit = mockExit();
+      try {
+        new Logger({ fatal: { exitCode: 3 }, stdout, stderr }).fatal("Crash");
+        expect(exit).toHaveBeenCalledWith(3);
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("runs shutdown hooks before exiting", async () => {
+      const exit = mockExit();
+      const calls: string[] = [];
+      try {
+        const hooked = new Logger({
+          fatal: {
+            shutdownHooks: [
+              async () => {
+                await Bun.sleep(5);
+                calls.push("hook");
+              },
+              () => {
+                throw new Error("ignored");
+              },
+            ],
+          },
+          stdout,
+          stderr,
+        });
+        hooked.fatal("Crash");
+        expect(exit).not.toHaveBeenCalled();
+        await Bun.sleep(30);
+        expect(calls).toEqual(["hook"]);
+        expect(exit).toHaveBeenCalledWith(1);
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("exits after the shutdown timeout when hooks hang", async () => {
+      const exit = mockExit();
+      try {
+        const hooked = new Logger({
+          fatal: {
+            shutdownHooks: [() => new Promise(() => {})],
+            shutdownTimeout: 10,
+          },
+          stdout,
+          stderr,
+        });
+        hooked.fatal("Crash");
+        await Bun.sleep(40);
+        expect(exit).toHaveBeenCalledWith(1);
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("throws a FatalError in throw mode for text, jsonl and timers", () => {
+      const exit = mockExit();
+      try {
+        const textLogger = new Logger({ fatal: "throw", stdout, stderr });
+        const jsonLogger = new Logger({
+          fatal: "throw",
+          outputFormat: "jsonl",
+          stdout,
+        });
+        const cause = new Error("disk full");
+
+        expect(() => textLogger.fatal("Crash %d", 1)).toThrow(FatalError);
+        expect(() => jsonLogger.fatal(cause)).toThrow("disk full");
+        expect(() => jsonLogger.timer().fatal("Timed crash")).toThrow(
+          "Timed crash",
+        );
+        try {
+          jsonLogger.fatal(cause);
+        } catch (error) {
+          expect((error as FatalError).cause).toBe(cause);
+        }
+        expect(exit).not.toHaveBeenCalled();
+        expect(stderr.lines.length).toBeGreaterThan(0);
+        expect(stdout.lines.length).toBe(3);
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("only logs in log mode", () => {
+      const exit = mockExit();
+      try {
+        const libraryLogger = new Logger({ fatal: "log", stdout, stderr });
+        libraryLogger.fatal("Crash");
+        libraryLogger.child({ a: 1 }).timer().fatal("Child crash");
+        expect(exit).not.toHaveBeenCalled();
+        expect(stripAnsi(stderr.output)).toContain("Child crash");
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    test("throws on invalid fatal mode", () => {
+      expect(() => new Logger({ fatal: "panic" as any })).toThrow(
+        'Invalid fatal mode: "panic"',
+      );
+    });
   });
 
   describe("error handling", () => {
@@ -278,48 +1295,432 @@ describe("Logger", () => {
       expect(output).toContain("Inner error");
     });
 
+    test("renders error properties, aggregated errors and causes as a tree", () => {
+      const error = new AggregateError(
+        [
+          Object.assign(new Error("connect ECONNREFUSED ::1:5432"), {
+            code: "ECONNREFUSED",
+          }),
+          "timed out",
+        ],
+        "All attempts failed",
+        { cause: new Error("pool exhausted", { cause: { retries: 3 } }) },
+      );
+      Object.assign(error, { host: "db" });
+      logger.error("Connect failed:", error);
+
+      const lines = stripAnsi(stderr.output)
+        .split("\n")
+        .map((line) => line.replace(/^.*?\[ERROR\] +\[Test\] /, ""));
+      expect(lines.slice(0, 7)).toEqual([
+        "Connect failed: All attempts failed",
+        "  host=db",
+        "  [1/2] Error: connect ECONNREFUSED ::1:5432",
+        "    code=ECONNREFUSED",
+        "  [2/2] timed out",
+        "  Caused by: pool exhausted",
+        "    Caused by: { retries: 3 }",
+      ]);
+    });
+
+    test("renders error-valued properties as a tree", () => {
+      const inner = new AggregateError([new Error("replica down")], "all failed");
+      const error = Object.assign(new Error("Query failed"), { code: "E1", inner });
+      logger.error("Failed:", error);
+
+      const lines = stripAnsi(stderr.output)
+        .split("\n")
+        .map((line) => line.replace(/^.*?\[ERROR\] +\[Test\] /, ""));
+      expect(lines.slice(0, 4)).toEqual([
+        "Failed: Query failed",
+        "  code=E1",
+        "  inner: AggregateError: all failed",
+        "    [1/1] Error: replica down",
+      ]);
+    });
+
     test("logs stack trace for errors", () => {
       const err = new Error("Test error");
       logger.error("Failed:", err);
       const output = stripAnsi(stderr.output);
       expect(output).toContain("Stack trace:");
     });
-  });
+  });
+
+  describe("module tag", () => {
+    test("includes module tag when set", () => {
+      logger.info("With module");
+      expect(stripAnsi(stdout.lines[0]!)).toContain("[Test]");
+    });
+
+    test("no module tag when not set", () => {
+      const noModuleLogger = new Logger({
+        logLevel: "debug",
+        stdout,
+        stderr,
+      });
+      noModuleLogger.info("No module");
+      const output = stripAnsi(stdout.lines[0]!);
+      expect(output).toContain("[INFO]");
+      expect(output).toContain("No module");
+      // Should not have a module tag pattern like [Something] between level and message
+      expect(output).toMatch(/\[INFO\]\s+No module/);
+    });
+
+    test("setModule updates module tag", () => {
+      logger.setModule("NewModule");
+      logger.info("Updated");
+      expect(stripAnsi(stdout.lines[0]!)).toContain("[NewModule]");
+    });
+  });
+
+  describe("child loggers", () => {
+    test("appends bound fields after module tag in text mode", () => {
+      const child = logger.child({ requestId: "abc123", userId: 42 });
+      child.info("Handling request");
+      const output = stripAnsi(stdout.lines[0]!);
+      expect(output).toContain("[Test] requestId=abc123 userId=42 Handling request");
+    });
+
+    test("quotes string values containing whitespace", () => {
+      logger.child({ path: "/a b" }).info("Request");
+      expect(stripAnsi(stdout.lines[0]!)).toContain('path="/a b" Request');
+    });
+
+    test("emits bound fields as top-level keys in jsonl mode", () => {
+      const jsonLogger = new Logger({
+        logLevel: "debug",
+        module: "Test",
+        outputFormat: "jsonl",
+        stdout,
+        stderr,
+      });
+      jsonLogger.child({ requestId: "abc123", level: "ignored" }).warn("Slow");
+
+      const line = parseJsonLine(stdout.lines[0]!);
+      expect(line["requestId"]).toBe("abc123");
+      expect(line["level"]).toBe("warn");
+      expect(line["module"]).toBe("Test");
+    });
+
+    test("nested children merge fields", () => {
+      const child = logger.child({ requestId: "abc", userId: 1 });
+      const grandchild = child.child({ userId: 2, step: "db" });
+      grandchild.info("Query");
+      const output = stripAnsi(stdout.lines[0]!);
+      expect(output).toContain("requestId=abc userId=2 step=db Query");
+    });
+
+    test("does not affect the parent logger", () => {
+      logger.child({ requestId: "abc" });
+      logger.info("Parent");
+      expect(stripAnsi(stdout.lines[0]!)).not.toContain("requestId");
+    });
+
+    test("inherits level and streams from the parent", () => {
+      logger.setLogLevel("warn");
+      const child = logger.child({ requestId: "abc" });
+      child.info("Filtered");
+      child.error("Kept");
+      expect(stdout.lines.length).toBe(0);
+      expect(stripAnsi(stderr.lines[0]!)).toContain("requestId=abc Kept");
+    });
+
+    test("timer on a child inherits the context", () => {
+      const timer = logger.child({ requestId: "abc" }).timer({ format: "raw" });
+      timer.info("Done");
+      expect(stripAnsi(stdout.lines[0]!)).toMatch(
+        /\[Test\] requestId=abc \[\d+ms\] Done/,
+      );
+    });
+  });
+
+  describe("async context", () => {
+    test("attaches ambient fields to loggers created anywhere", async () => {
+      await Logger.runWithContext({ requestId: "abc123" }, async () => {
+        await Bun.sleep(1);
+        const helperLogger = new Logger({ module: "Helper", stdout, stderr });
+        helperLogger.info("From helper");
+      });
+      expect(stripAnsi(stdout.lines[0]!)).toContain(
+        "[Helper] requestId=abc123 From helper",
+      );
+    });
+
+    test("does not leak outside the context", () => {
+      Logger.runWithContext({ requestId: "abc123" }, () => {});
+      logger.info("Outside");
+      expect(stripAnsi(stdout.lines[0]!)).not.toContain("requestId");
+    });
+
+    test("nested contexts merge fields", () => {
+      Logger.runWithContext({ requestId: "abc", step: "outer" }, () => {
+        Logger.runWithContext({ step: "inner" }, () => {
+          logger.info("Nested");
+        });
+      });
+      expect(stripAnsi(stdout.lines[0]!)).toContain(
+        "requestId=abc step=inner Nested",
+      );
+    });
+
+    test("child logger fields override ambient fields", () => {
+      const child = logger.child({ userId: 2 });
+      Logger.runWithContext({ requestId: "abc", userId: 1 }, () => {
+        child.info("Merged");
+      });
+      expect(stripAnsi(stdout.lines[0]!)).toContain(
+        "requestId=abc userId=2 Merged",
+      );
+    });
+
+    test("applies to timers and jsonl output", () => {
+      const jsonLogger = new Logger({
+        outputFormat: "jsonl",
+        stdout,
+        stderr,
+      });
+      const timer = jsonLogger.timer();
+      Logger.runWithContext({ requestId: "abc123" }, () => {
+        timer.info("Timed");
+      });
+      expect(parseJsonLine(stdout.lines[0]!)["requestId"]).toBe("abc123");
+    });
+
+    test("returns the function result", async () => {
+      const result = await Logger.runWithContext({}, async () => 42);
+      expect(result).toBe(42);
+    });
+  });
+
+  describe("module levels", () => {
+    afterEach(() => {
+      Logger.setModuleLevels("");
+    });
+
+    function createModuleLogger(module: string): Logger {
+      return new Logger({ logLevel: "info", module, stdout, stderr });
+    }
+
+    test("picks the level of the most specific matching pattern", () => {
+      Logger.setModuleLevels("api:*=debug,api:auth=warn,*=error");
+      createModuleLogger("api:auth").info("auth info");
+      createModuleLogger("api:users").debug("users debug");
+      createModuleLogger("db").warn("db warn");
+      expect(stdout.lines.length).toBe(1);
+      expect(stripAnsi(stdout.lines[0]!)).toContain("users debug");
+      expect(stderr.lines.length).toBe(0);
+    });
+
+    test("falls back to the logger's own level without a match", () => {
+      Logger.setModuleLevels({ "api:*": "debug" });
+      const dbLogger = createModuleLogger("db");
+      dbLogger.debug("Hidden");
+      dbLogger.info("Shown");
+      expect(stdout.lines.length).toBe(1);
+    });
+
+    test("applies to already-created loggers", () => {
+      const apiLogger = createModuleLogger("api:auth");
+      apiLogger.debug("Before");
+      Logger.setModuleLevels("api:*=debug");
+      apiLogger.debug("After");
+      Logger.setModuleLevels("");
+      apiLogger.debug("Cleared");
+      expect(stdout.lines.length).toBe(1);
+      expect(stripAnsi(stdout.lines[0]!)).toContain("After");
+    });
+
+    test("follows setModule", () => {
+      Logger.setModuleLevels("db=debug");
+      const moduleLogger = createModuleLogger("api");
+      moduleLogger.debug("Hidden");
+      moduleLogger.setModule("db");
+      moduleLogger.debug("Shown");
+      expect(stdout.lines.length).toBe(1);
+    });
+
+    test("throws on invalid entries", () => {
+      expect(() => Logger.setModuleLevels("api=loud")).toThrow(
+        'Invalid log level: "loud"',
+      );
+      expect(() => Logger.setModuleLevels("api")).toThrow(
+        'Invalid module level entry: "api"',
+      );
+    })
+    test("skips invalid LOG_LEVELS entries with a warning", () => {
+      const script =
+        'import { Logger } from "./src/logger"; new Logger({ module: "db" }).debug("db debug");';
+      const result = Bun.spawnSync([process.execPath, "-e", script], {
+        cwd: `${import.meta.dir}/..`,
+        env: { ...process.env, NODE_ENV: "production", LOG_LEVELS: "api,db=debug" },
+      });
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.toString()).toContain("db debug");
+      expect(result.stderr.toString()).toBe(
+        'LOG_LEVELS: Invalid module level entry: "api". Expected "pattern=level"; ignored\n',
+      );
+    });
+  });
+
+  describe("setLogLevel", () => {
+    test("can change log level at runtime", () => {
+      logger.setLogLevel("error");
+      logger.info("Should not appear");
+      logger.error("Should appear");
+      expect(stdout.lines.length).toBe(0);
+      expect(stderr.lines.length).toBeGreaterThan(0);
+    });
+
+    test("applies to existing child loggers until they set their own", () => {
+      const child = logger.child({ requestId: "r1" });
+      const grandchild = child.child({ step: 1 });
+      logger.setLogLevel("debug");
+      child.debug("From child");
+      grandchild.debug("From grandchild");
+      expect(stdout.lines.length).toBe(2);
+
+      child.setLogLevel("warn");
+      child.info("Hidden");
+      grandchild.info("Hidden too");
+      logger.debug("From parent");
+      expect(stdout.lines.length).toBe(3);
+    });
+  });
+
+  describe("custom levels", () => {
+    const levels = {
+      trace: { severity: 10, color: "\x1b[35m" },
+      notice: { severity: 35 },
+      audit: { severity: 45, stream: "stdout" as const },
+    };
+
+    test("generates typed methods for custom levels", () => {
+      const customLogger = Logger.create({
+        logLevel: "trace",
+        levels,
+        outputFormat: "jsonl",
+        stdout,
+      });
+      customLogger.trace("frame %d", 7);
+      customLogger.log("notice", "Disk almost full");
+      const records = stdout.lines.map(parseJsonLine);
+      expect(records.map((record) => record["level"])).toEqual(["trace", "notice"]);
+      expect(records[0]!["message"]).toBe("frame 7");
+    });
+
+    test("writes the severity of custom levels to jsonl", () => {
+      const customLogger = Logger.create({
+        logLevel: "trace",
+        levels,
+        outputFormat: "jsonl",
+        stdout,
+      });
+      customLogger.notice("Disk almost full");
+      customLogger.info("Started");
+      const [notice, info] = stdout.lines.map(parseJsonLine);
+      expect(notice!["severity"]).toBe(35);
+      expect(info!["severity"]).toBeUndefined();
+    });
+
+    test("filters by severity", () => {
+      const customLogger = Logger.create({ levels, stdout, stderr });
+      customLogger.trace("Hidden");
+      customLogger.notice("Shown");
+      customLogger.setLogLevel("notice");
+      customLogger.info("Hidden too");
+      expect(stdout.lines.length + stderr.lines.length).toBe(1);
+    });
+
+    test("routes custom levels to stdout or stderr", () => {
+      const customLogger = Logger.create({ logLevel: "trace", levels, stdout, stderr });
+      customLogger.trace("Wire dump");
+      customLogger.notice("Below warn");
+      customLogger.audit("Forced to stdout");
+      expect(stdout.lines.map(stripAnsi).join("\n")).toContain("[TRACE]");
+      expect(stdout.lines.map(stripAnsi).join("\n")).toContain("[NOTICE]");
+      expect(stdout.lines.map(stripAnsi).join("\n")).toContain("[AUDIT]");
+      expect(stderr.lines.length).toBe(0);
+
+      const loud = Logger.create({
+        levels: { alert: { severity: 55 } },
+        stdout,
+        stderr,
+      });
+      loud.alert("Error-like", new Error("boom"));
+      expect(stripAnsi(stderr.lines[0]!)).toContain("[ALERT]");
+      expect(stderr.output).toContain("Stack trace:");
+    });
 
-  describe("module tag", () => {
-    test("includes module tag when set", () => {
-      logger.info("With module");
-      expect(stripAnsi(stdout.lines[0]!)).toContain("[Test]");
+    test("colors the level tag", () => {
+      const customLogger = Logger.create({
+        logLevel: "trace",
+        levels,
+        sinks: [{ stream: stdout, color: true }],
+      });
+      customLogger.trace("Colored");
+      expect(stdout.lines[0]).toContain("\x1b[35m[TRACE]");
     });
 
-    test("no module tag when not set", () => {
-      const noModuleLogger = new Logger({
-        logLevel: "debug",
+    test("orders sink ranges by severity", () => {
+      const wire = createMockStream();
+      const customLogger = Logger.create({
+        logLevel: "trace",
+        levels,
+        sinks: [{ stream: wire, maxLevel: "trace", format: "jsonl" }],
+      });
+      customLogger.trace("Kept");
+      customLogger.debug("Dropped");
+      expect(wire.lines.length).toBe(1);
+    });
+
+    test("children and timers inherit custom levels", () => {
+      const customLogger = Logger.create({
+        logLevel: "trace",
+        levels,
+        outputFormat: "jsonl",
         stdout,
-        stderr,
       });
-      noModuleLogger.info("No module");
-      const output = stripAnsi(stdout.lines[0]!);
-      expect(output).toContain("[INFO]");
-      expect(output).toContain("No module");
-      // Should not have a module tag pattern like [Something] between level and message
-      expect(output).toMatch(/\[INFO\]\s+No module/);
+      customLogger.child({ requestId: "r1" }).trace("From child");
+      customLogger.timer().notice("From timer");
+      const records = stdout.lines.map(parseJsonLine);
+      expect(records[0]!["requestId"]).toBe("r1");
+      expect(records[0]!["level"]).toBe("trace");
+      expect(records[1]!["level"]).toBe("notice");
+      expect(records[1]!["durationMs"]).toBeNumber();
     });
 
-    test("setModule updates module tag", () => {
-      logger.setModule("NewModule");
-      logger.info("Updated");
-      expect(stripAnsi(stdout.lines[0]!)).toContain("[NewModule]");
+    test("module level patterns accept custom levels", () => {
+      const customLogger = Logger.create({
+        module: "proto",
+        levels,
+        outputFormat: "jsonl",
+        stdout,
+      });
+      const plainLogger = new Logger({ module: "proto", logLevel: "warn", stdout });
+      Logger.setModuleLevels("proto=trace");
+      try {
+        customLogger.trace("Enabled by pattern");
+        plainLogger.info("Plain logger ignores the pattern");
+      } finally {
+        Logger.setModuleLevels("");
+      }
+      expect(stdout.lines.length).toBe(1);
     });
-  });
 
-  describe("setLogLevel", () => {
-    test("can change log level at runtime", () => {
-      logger.setLogLevel("error");
-      logger.info("Should not appear");
-      logger.error("Should appear");
-      expect(stdout.lines.length).toBe(0);
-      expect(stderr.lines.length).toBeGreaterThan(0);
+    test("rejects invalid custom levels", () => {
+      expect(() => new Logger({ levels: { info: { severity: 5 } } })).toThrow(
+        'Invalid custom level name: "info"',
+      );
+      expect(() => new Logger({ levels: { child: { severity: 5 } } })).toThrow(
+        'Invalid custom level name: "child"',
+      );
+      expect(() => new Logger({ levels: { trace: { severity: NaN } } })).toThrow(
+        'Invalid severity for level "trace"',
+      );
+      expect(() => Logger.create({ levels, logLevel: "verbose" as any })).toThrow(
+        "Valid levels: trace, debug, info, notice, warn, audit, error, fatal",
+      );
     });
   });
 });
@@ -437,6 +1838,681 @@ describe("Timer", () => {
     const args = line["args"] as unknown[];
     expect(args[0]).toEqual({ ok: true });
   });
+
+  test("elapsed reads the duration without logging", async () => {
+    const timer = logger.timer();
+    await Bun.sleep(5);
+    expect(timer.elapsed()).toBeGreaterThanOrEqual(4);
+    expect(stdout.lines.length).toBe(0);
+  });
+
+  test("laps measure time since the previous checkpoint", async () => {
+    const timer = logger.timer();
+    await Bun.sleep(10);
+    const first = timer.lap("parse");
+    timer.mark("validate");
+    await Bun.sleep(10);
+    const third = timer.lap("query");
+    expect(first).toBeGreaterThanOrEqual(9);
+    expect(third).toBeGreaterThanOrEqual(9);
+    expect(third).toBeLessThan(timer.elapsed());
+  });
+
+  test("end logs a lap summary and freezes the timer", async () => {
+    const timer = logger.timer({ format: "raw" });
+    timer.mark("parse");
+    await Bun.sleep(5);
+    timer.mark("query");
+    const total = timer.end("debug", "Request handled");
+    await Bun.sleep(10);
+
+    expect(timer.elapsed()).toBe(total);
+    expect(stripAnsi(stdout.lines[0]!)).toMatch(
+      /\[DEBUG\].*\[\d+ms\] Request handled \| parse \+\d+ms \(\d+ms\), query \+\d+ms \(\d+ms\)$/,
+    );
+    timer.mark("ignored");
+    timer.info("After stop");
+    expect(stripAnsi(stdout.lines[1]!)).toContain(`[${Math.round(total)}ms] After stop`);
+  });
+
+  test("stop logs the summary at info level", () => {
+    const timer = logger.timer();
+    timer.stop();
+    expect(stripAnsi(stdout.lines[0]!)).toMatch(/\[INFO\].*Timer stopped$/);
+  });
+
+  test("summary includes a structured laps array in jsonl mode", async () => {
+    const jsonLogger = new Logger({ outputFormat: "jsonl", stdout });
+    const timer = jsonLogger.timer({ format: "raw" });
+    await Bun.sleep(5);
+    timer.mark("parse");
+    await Bun.sleep(5);
+    timer.mark("query");
+    timer.end();
+
+    const line = parseJsonLine(stdout.lines[0]!);
+    expect(line["message"]).toBe("Timer stopped");
+    const laps = line["laps"] as Array<Record<string, unknown>>;
+    expect(laps.map((lap) => lap["label"])).toEqual(["parse", "query"]);
+    expect(laps[0]!["durationMs"]).toBeGreaterThanOrEqual(4);
+    expect(laps[1]!["elapsedMs"]).toBeGreaterThanOrEqual(laps[0]!["elapsedMs"] as number);
+    expect(laps[1]!["duration"]).toMatch(/^\d+ms$/);
+    expect(line["durationMs"]).toBeGreaterThanOrEqual(laps[1]!["elapsedMs"] as number);
+  });
+});
+
+describe("Timer thresholds", () => {
+  let stdout: ReturnType<typeof createMockStream>;
+  let stderr: ReturnType<typeof createMockStream>;
+  let logger: Logger;
+
+  beforeEach(() => {
+    stdout = createMockStream();
+    stderr = createMockStream();
+    logger = new Logger({
+      logLevel: "debug",
+      outputFormat: "jsonl",
+      jsonlSplitStreams: true,
+      stdout,
+      stderr,
+    });
+  });
+
+  test("escalates log calls past a threshold", async () => {
+    const timer = logger.timer({ warnAfterMs: 5, errorAfterMs: 20 });
+    timer.debug("Fast");
+    await Bun.sleep(10);
+    timer.info("Slowish");
+    await Bun.sleep(15);
+    timer.info("Slow");
+
+    expect(parseJsonLine(stdout.lines[0]!)["level"]).toBe("debug");
+    const [slowish, slow] = stderr.lines.map(parseJsonLine);
+    expect(slowish!["level"]).toBe("warn");
+    expect(slowish!["thresholdExceeded"]).toBe("warnAfterMs");
+    expect(slowish!["thresholdMs"]).toBe(5);
+    expect(slow!["level"]).toBe("error");
+    expect(slow!["thresholdExceeded"]).toBe("errorAfterMs");
+  });
+
+  test("never lowers the level", () => {
+    const timer = logger.timer({ warnAfterMs: 0 });
+    timer.error("Already an error");
+    const line = parseJsonLine(stderr.lines[0]!);
+    expect(line["level"]).toBe("error");
+    expect(line["thresholdExceeded"]).toBe("warnAfterMs");
+  });
+
+  test("highlights the duration tag in text output", () => {
+    const textLogger = new Logger({ sinks: [{ stream: stdout, color: true }] });
+    textLogger.timer({ format: "raw", warnAfterMs: 0 }).info("Late");
+    expect(stdout.lines[0]).toMatch(/\x1b\[33m\[\d+ms\]/);
+  });
+
+  test("watchdog warns once when the budget elapses", async () => {
+    const timer = logger.timer({ format: "raw", budgetMs: 5 });
+    await Bun.sleep(20);
+    expect(stderr.lines.length).toBe(1);
+    const line = parseJsonLine(stderr.lines[0]!);
+    expect(line["level"]).toBe("warn");
+    expect(line["message"]).toBe("Timer still running after its 5ms budget");
+    expect(line["thresholdExceeded"]).toBe("budgetMs");
+    timer.stop();
+  });
+
+  test("stopping the timer disarms the watchdog", async () => {
+    logger.timer({ budgetMs: 5 }).stop();
+    await logger.time("fast", () => undefined, { budgetMs: 5 });
+    await Bun.sleep(15);
+    expect(stderr.lines.length).toBe(0);
+  });
+
+  test("rejects invalid thresholds", () => {
+    expect(() => logger.timer({ warnAfterMs: -1 })).toThrow(
+      "Invalid timer threshold: warnAfterMs=-1",
+    );
+  });
+});
+
+describe("Timer spans", () => {
+  let stdout: ReturnType<typeof createMockStream>;
+  let logger: Logger;
+
+  beforeEach(() => {
+    stdout = createMockStream();
+    logger = new Logger({ logLevel: "debug", outputFormat: "jsonl", stdout });
+  });
+
+  test("named timers emit start and end events", () => {
+    const span = logger.timer({ name: "request" });
+    span.end();
+    const [start, end] = stdout.lines.map(parseJsonLine);
+    expect(start).toMatchObject({
+      level: "debug",
+      message: "request started",
+      span: { spanId: span.spanId, name: "request", event: "start" },
+    });
+    expect(start!["span"]).not.toHaveProperty("parentSpanId");
+    expect(end).toMatchObject({
+      level: "info",
+      message: "request ended",
+      span: { spanId: span.spanId, name: "request", event: "end" },
+    });
+    expect(end!["durationMs"]).toEqual(expect.any(Number));
+    expect(start!["duration"]).toBeUndefined();
+    expect(start!["durationMs"]).toBeUndefined();
+  });
+
+  test("shows no empty duration tag for start events or instant spans", () => {
+    const text = createMockStream();
+    const textLogger = new Logger({ logLevel: "debug", stdout: text });
+    textLogger.timer({ name: "db" }).end();
+    const [start, end] = text.lines.map(stripAnsi);
+    expect(start).toMatch(/\[DEBUG\] +db started$/);
+    expect(end).toMatch(/\[INFO\] +\[\d+ms\] db ended$/);
+    expect(end).not.toContain("[]");
+  });
+
+  test("children carry their parent's span id", async () => {
+    const root = logger.timer({ name: "request" });
+    const query = root.child("db.query");
+    query.info("Rows fetched", 3);
+    await Bun.sleep(5);
+    query.end();
+
+    const records = stdout.lines.map(parseJsonLine);
+    expect(records.map((record) => record["message"])).toEqual([
+      "request started",
+      "db.query started",
+      "Rows fetched",
+      "db.query ended",
+    ]);
+    for (const record of records.slice(1)) {
+      expect(record["span"]).toMatchObject({
+        spanId: query.spanId,
+        parentSpanId: root.spanId,
+        name: "db.query",
+      });
+    }
+    expect(query.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(query.spanId).not.toBe(root.spanId);
+    expect(records[3]!["durationMs"]).toBeGreaterThanOrEqual(4);
+  });
+
+  test("unnamed timers keep plain records", () => {
+    logger.timer().info("Done");
+    const record = parseJsonLine(stdout.lines[0]!);
+    expect(record["span"]).toBeUndefined();
+  });
+
+  test("keeps the trace context's span id and bound fields", () => {
+    const trace = { traceId: "a".repeat(32), spanId: "b".repeat(16) };
+    let output = "";
+    const otelLogger = new Logger({
+      outputFormat: "otel",
+      context: { name: "svc" },
+      stdout: { write: (chunk: string) => (output += chunk) },
+      traceContext: () => trace,
+    });
+    otelLogger.timer({ name: "req" }).info("Working");
+
+    const record = JSON.parse(output.trimEnd());
+    expect(record["TraceId"]).toBe(trace.traceId);
+    expect(record["SpanId"]).toBe(trace.spanId);
+    expect(record["Attributes"]["name"]).toBe("svc");
+    expect(record["Attributes"]["span"]["name"]).toBe("req");
+  });
+
+  test("renders the span tree", () => {
+    const root = logger.timer({ name: "request", format: "raw" });
+    const db = root.child("db");
+    db.child("parse").end();
+    db.end();
+    root.child("render");
+    expect(root.renderTree()).toMatch(
+      /^request \d+ms \(running\)\n├─ db \d+ms\n│  └─ parse \d+ms\n└─ render \d+ms \(running\)$/,
+    );
+  });
+
+  test("logs the tree when a root span ends with logTree", () => {
+    const root = logger.timer({ name: "job", format: "raw", logTree: true });
+    root.child("step").end();
+    root.end();
+    const last = parseJsonLine(stdout.lines.at(-1)!);
+    expect(last["message"]).toMatch(/^Span tree\njob \d+ms\n└─ step \d+ms$/);
+  });
+
+  test("span ids sit next to the trace context span id", () => {
+    const traced = new Logger({
+      outputFormat: "jsonl",
+      traceContext: () => ({ traceId: "t".repeat(32), spanId: "s".repeat(16) }),
+      stdout,
+    });
+    const span = traced.timer({ name: "work" });
+    span.end();
+    const record = parseJsonLine(stdout.lines[0]!);
+    expect(record["traceId"]).toBe("t".repeat(32));
+    expect(record["spanId"]).toBe("s".repeat(16));
+    expect((record["span"] as Record<string, unknown>)["spanId"]).toBe(span.spanId);
+  });
+});
+
+describe("time helper", () => {
+  let stdout: ReturnType<typeof createMockStream>;
+  let stderr: ReturnType<typeof createMockStream>;
+  let logger: Logger;
+
+  beforeEach(() => {
+    stdout = createMockStream();
+    stderr = createMockStream();
+    logger = new Logger({
+      logLevel: "debug",
+      module: "Test",
+      outputFormat: "jsonl",
+      jsonlSplitStreams: true,
+      stdout,
+      stderr,
+    });
+  });
+
+  test("returns the result of a sync function and logs completion", () => {
+    const result = logger.time("parse", () => 42, { format: "raw" });
+    expect(result).toBe(42);
+    const line = parseJsonLine(stdout.lines[0]!);
+    expect(line["level"]).toBe("info");
+    expect(line["message"]).toBe("parse completed");
+    expect(line["duration"]).toMatch(/^\d+ms$/);
+    expect(line["durationMs"]).toEqual(expect.any(Number));
+  });
+
+  test("awaits async functions and logs start when asked", async () => {
+    const result = await logger.time(
+      "db.query",
+      async () => {
+        await Bun.sleep(5);
+        return "rows";
+      },
+      { logStart: true, level: "debug" },
+    );
+    expect(result).toBe("rows");
+    const lines = stdout.lines.map(parseJsonLine);
+    expect(lines.map((line) => line["message"])).toEqual([
+      "db.query started",
+      "db.query completed",
+    ]);
+    expect(lines[1]!["level"]).toBe("debug");
+    expect(lines[1]!["durationMs"]).toBeGreaterThanOrEqual(4);
+  });
+
+  test("logs failures with the error and rethrows", async () => {
+    const error = new Error("connection reset");
+    await expect(
+      logger.time("http.get", async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+    expect(() =>
+      logger.time(
+        "sync",
+        () => {
+          throw error;
+        },
+        { errorLevel: "warn" },
+      ),
+    ).toThrow(error);
+
+    const [asyncLine, syncLine] = stderr.lines.map(parseJsonLine);
+    expect(asyncLine!["level"]).toBe("error");
+    expect(asyncLine!["message"]).toBe("http.get failed");
+    const errors = asyncLine!["errors"] as Array<Record<string, unknown>>;
+    expect(errors[0]!["message"]).toBe("connection reset");
+    expect(asyncLine!["durationMs"]).toEqual(expect.any(Number));
+    expect(syncLine!["level"]).toBe("warn");
+  });
+
+  test("upgrades slow completions to warn", async () => {
+    await logger.time("slow", () => Bun.sleep(10), { slowMs: 5 });
+    logger.time("fast", () => undefined, { slowMs: 1000 });
+    expect(parseJsonLine(stderr.lines[0]!)["message"]).toBe("slow completed");
+    expect(parseJsonLine(stderr.lines[0]!)["level"]).toBe("warn");
+    expect(parseJsonLine(stdout.lines[0]!)["message"]).toBe("fast completed");
+  });
+
+  test("rejects invalid levels", () => {
+    expect(() => logger.time("x", () => 1, { level: "loud" as any })).toThrow(
+      'Invalid log level: "loud"',
+    );
+  });
+});
+
+describe("flight recorder", () => {
+  let stdout: ReturnType<typeof createMockStream>;
+
+  beforeEach(() => {
+    stdout = createMockStream();
+  });
+
+  function createLogger(
+    flightRecorder: LoggerOptions["flightRecorder"],
+  ): Logger {
+    return new Logger({
+      module: "api",
+      outputFormat: "jsonl",
+      stdout,
+      flightRecorder,
+      fatal: "log",
+    });
+  }
+
+  function messages(): unknown[] {
+    return stdout.lines.map((line) => parseJsonLine(line)["message"]);
+  }
+
+  test("writes unwritten lines below the log level before an error", () => {
+    const logger = createLogger(true);
+    logger.debug("connecting");
+    logger.info("request received");
+    logger.debug("query sent");
+    logger.error("query failed");
+    expect(messages()).toEqual([
+      "request received",
+      "connecting",
+      "query sent",
+      "query failed",
+    ]);
+    const replayed = parseJsonLine(stdout.lines[1]!);
+    expect(replayed["recorded"]).toBe(true);
+    expect(replayed["level"]).toBe("debug");
+    expect(parseJsonLine(stdout.lines[3]!)["recorded"]).toBeUndefined();
+  });
+
+  test("clears the buffer after writing it", () => {
+    const logger = createLogger(true);
+    logger.debug("first");
+    logger.error("one");
+    logger.error("two");
+    expect(messages()).toEqual(["first", "one", "two"]);
+  });
+
+  test("keeps only the most recent lines", () => {
+    const logger = createLogger({ size: 2 });
+    for (const n of [1, 2, 3, 4]) logger.debug(`step ${n}`);
+    logger.error("failed");
+    expect(messages()).toEqual(["step 3", "step 4", "failed"]);
+  });
+
+  test("keeps the original timestamp and fields", async () => {
+    const logger = createLogger(true);
+    await Logger.runWithContext({ requestId: "r1" }, () => logger.debug("inside"));
+    await Bun.sleep(5);
+    logger.error("outside");
+    const [replayed, error] = stdout.lines.map(parseJsonLine);
+    expect(replayed!["requestId"]).toBe("r1");
+    expect(error!["requestId"]).toBeUndefined();
+    expect(Date.parse(replayed!["timestamp"] as string)).toBeLessThan(
+      Date.parse(error!["timestamp"] as string),
+    );
+  });
+
+  test("uses the configured trigger level", () => {
+    const logger = createLogger({ triggerLevel: "warn" });
+    logger.debug("detail");
+    logger.warn("slow");
+    expect(messages()).toEqual(["detail", "slow"]);
+  });
+
+  test("dumps on demand", () => {
+    const logger = createLogger(true);
+    logger.debug("detail");
+    expect(stdout.lines).toHaveLength(0);
+    logger.dump();
+    logger.dump();
+    expect(messages()).toEqual(["detail"]);
+  });
+
+  test("shares the buffer with child loggers", () => {
+    const logger = createLogger(true);
+    logger.child({ requestId: "r1" }).debug("child detail");
+    logger.error("parent failed");
+    expect(messages()).toEqual(["child detail", "parent failed"]);
+    expect(parseJsonLine(stdout.lines[0]!)["requestId"]).toBe("r1");
+  });
+
+  test("keeps one buffer per module", () => {
+    const logger = createLogger({ scope: "module" });
+    const db = logger.child({});
+    db.setModule("db");
+    logger.debug("api detail");
+    db.debug("db detail");
+    db.error("db failed");
+    expect(messages()).toEqual(["db detail", "db failed"]);
+  });
+
+  test("keeps one buffer per async context", async () => {
+    const logger = createLogger({ scope: "context" });
+    await Promise.all(
+      ["a", "b"].map((id) =>
+        Logger.runWithContext({ id }, async () => {
+          logger.debug(`${id} started`);
+          await Bun.sleep(1);
+          if (id === "b") logger.error(`${id} failed`);
+        }),
+      ),
+    );
+    expect(messages()).toEqual(["b started", "b failed"]);
+  });
+
+  test("shares module buffers across logger instances", () => {
+    const first = createLogger({ scope: "module" });
+    const second = createLogger({ scope: "module" });
+    first.debug("first detail");
+    second.error("second failed");
+    expect(messages()).toEqual(["first detail", "second failed"]);
+  });
+
+  test("shares context buffers across modules", async () => {
+    const api = createLogger({ scope: "context" });
+    const db = createLogger({ scope: "context" });
+    db.setModule("db");
+    await Logger.runWithContext({ requestId: "r1" }, () => {
+      db.debug("query started");
+      api.error("request failed");
+    });
+    expect(messages()).toEqual(["query started", "request failed"]);
+    expect(parseJsonLine(stdout.lines[0]!)["module"]).toBe("db");
+  });
+
+  test("does not replay calls dropped by sampling or rate limits", () => {
+    const logger = new Logger({
+      logLevel: "debug",
+      outputFormat: "jsonl",
+      stdout,
+      flightRecorder: true,
+      sampleRate: { debug: 0 },
+      rateLimit: { limit: 1, levels: ["info"] },
+    });
+    logger.debug("sampled out");
+    logger.info("first");
+    logger.info("limited");
+    logger.error("failed");
+    expect(messages()).toEqual(["first", "failed"]);
+  });
+
+  test("does not record without the option", () => {
+    const logger = createLogger(undefined);
+    logger.debug("detail");
+    logger.error("failed");
+    expect(messages()).toEqual(["failed"]);
+  });
+
+  test("rejects invalid options", () => {
+    expect(() => createLogger({ size: 0 })).toThrow(
+      "Invalid flight recorder size: 0",
+    );
+    expect(() => createLogger({ scope: "thread" as any })).toThrow(
+      'Invalid flight recorder scope: "thread"',
+    );
+    expect(() => createLogger({ triggerLevel: "loud" as any })).toThrow(
+      'Invalid log level: "loud"',
+    );
+  });
+});
+
+describe("processors", () => {
+  let stdout: ReturnType<typeof createMockStream>;
+  let stderr: ReturnType<typeof createMockStream>;
+
+  beforeEach(() => {
+    stdout = createMockStream();
+    stderr = createMockStream();
+  });
+
+  function createLogger(processors: LoggerOptions["processors"]): Logger {
+    return new Logger({
+      module: "api",
+      outputFormat: "jsonl",
+      jsonlSplitStreams: true,
+      stdout,
+      stderr,
+      processors,
+    });
+  }
+
+  test("adds fields in jsonl and text output", () => {
+    const processors: LoggerOptions["processors"] = [
+      (record) => {
+        record.fields["sha"] = "abc123";
+        return record;
+      },
+    ];
+    createLogger(processors).info("Started");
+    expect(parseJsonLine(stdout.lines[0]!)["sha"]).toBe("abc123");
+
+    const text = createMockStream();
+    new Logger({ module: "api", stdout: text, processors }).info("Started");
+    expect(stripAnsi(text.output)).toContain("[api] sha=abc123 Started");
+  });
+
+  test("runs in order and can rewrite the message and args", () => {
+    const logger = createLogger([
+      (record) => ({ ...record, message: `${record.message}!` }),
+      (record) => ({ ...record, message: `[${record.message}]`, args: [] }),
+    ]);
+    logger.info("Hello", { dropped: true });
+    const line = parseJsonLine(stdout.lines[0]!);
+    expect(line["message"]).toBe("[Hello!]");
+    expect(line["args"]).toBeUndefined();
+  });
+
+  test("can change the level and route the record accordingly", () => {
+    const logger = createLogger([
+      (record) =>
+        typeof record.message === "string" && record.message.includes("retry")
+          ? { ...record, level: "warn" }
+          : record,
+    ]);
+    logger.info("Will retry");
+    expect(stdout.lines).toHaveLength(0);
+    expect(parseJsonLine(stderr.lines[0]!)["level"]).toBe("warn");
+  });
+
+  test("drops records when a processor returns null", () => {
+    const logger = createLogger([
+      (record) => (record.message === "healthcheck" ? null : record),
+    ]);
+    logger.info("healthcheck");
+    logger.info("kept");
+    expect(stdout.lines.map((line) => parseJsonLine(line)["message"])).toEqual(["kept"]);
+  });
+
+  test("runs only for records that pass the level", () => {
+    let calls = 0;
+    const logger = createLogger([
+      (record) => {
+        calls++;
+        return record;
+      },
+    ]);
+    logger.debug("hidden");
+    expect(calls).toBe(0);
+  });
+
+  test("sees bound fields and module", () => {
+    const seen: Array<[string, unknown]> = [];
+    const logger = createLogger([
+      (record) => {
+        seen.push([record.module, record.fields["requestId"]]);
+        return record;
+      },
+    ]);
+    logger.child({ requestId: "r1" }).info("Child");
+    expect(seen).toEqual([["api", "r1"]]);
+  });
+
+  test("runs for timer calls", () => {
+    const logger = createLogger([
+      (record) => ({ ...record, fields: { ...record.fields, pid: 42 } }),
+    ]);
+    logger.timer().info("Done");
+    const line = parseJsonLine(stdout.lines[0]!);
+    expect(line["pid"]).toBe(42);
+    expect(line["durationMs"]).toEqual(expect.any(Number));
+  });
+
+  test("skips throwing processors and keeps logging", () => {
+    const logger = createLogger([
+      () => {
+        throw new TypeError("bad processor");
+      },
+      (record) => ({ ...record, message: `${record.message} (processed)` }),
+    ]);
+    logger.info("Original");
+    const line = parseJsonLine(stdout.lines[0]!);
+    expect(line["message"]).toBe("Original (processed)");
+    expect(line["processorError"]).toBe("TypeError: bad processor");
+  });
+
+  test("skips processors returning an invalid result", () => {
+    const logger = createLogger([
+      (record) => ({ ...record, level: "loud" as any }),
+      () => undefined as any,
+    ]);
+    logger.info("Original");
+    const line = parseJsonLine(stdout.lines[0]!);
+    expect(line["level"]).toBe("info");
+    expect(line["message"]).toBe("Original");
+    expect(line["processorError"]).toBe("Invalid processor result: undefined");
+  });
+
+  test("skips processors returning a record without args or fields", () => {
+    const logger = createLogger([
+      (record) => ({ level: record.level, message: "no args" }) as any,
+      (record) => ({ ...record, fields: undefined as any }),
+    ]);
+    logger.info("Original %s", "arg");
+    const line = parseJsonLine(stdout.lines[0]!);
+    expect(line["message"]).toBe("Original arg");
+    expect(line["processorError"]).toBe(
+      "Invalid processor result: fields must be an object",
+    );
+
+    const argsLogger = createLogger([(record) => ({ ...record, args: undefined as any })]);
+    argsLogger.info("Still logged");
+    expect(parseJsonLine(stdout.lines[1]!)["processorError"]).toBe(
+      "Invalid processor result: args must be an array",
+    );
+  });
+
+  test("redacts fields added by processors", () => {
+    const logger = new Logger({
+      outputFormat: "jsonl",
+      stdout,
+      redact: { paths: ["token"] },
+      processors: [(record) => ({ ...record, fields: { token: "secret" } })],
+    });
+    logger.info("Auth");
+    expect(parseJsonLine(stdout.lines[0]!)["token"]).not.toBe("secret");
+  });
 });
 
 describe("Edge cases", () => {
@@ -481,6 +2557,20 @@ describe("Edge cases", () => {
     });
   });
 
+  describe("invalid sinks", () => {
+    test("throws on invalid sink format", () => {
+      expect(() => {
+        new Logger({ sinks: [{ stream: stdout, format: "xml" as any }] });
+      }).toThrow('Invalid output format: "xml"');
+    });
+
+    test("throws on invalid sink level", () => {
+      expect(() => {
+        new Logger({ sinks: [{ stream: stdout, level: "loud" as any }] });
+      }).toThrow('Invalid log level: "loud"');
+    });
+  });
+
   describe("circular error causes", () => {
     test("handles circular cause chain without infinite loop", () => {
       const logger = new Logger({ logLevel: "debug", stdout, stderr });
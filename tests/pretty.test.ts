@@ -0,0 +1,117 @@
+import { describe, test, expect } from "bun:test";
+import { Readable } from "node:stream";
+import { Logger } from "../src/logger";
+import { prettyPrint, renderJsonLine } from "../src/pretty";
+
+const plain = { color: false, truecolor: false };
+
+// Log through a jsonl logger and return the written line
+function captureJsonLine(log: (logger: Logger) => void): string {
+  let output = "";
+  const logger = new Logger({
+    logLevel: "debug",
+    module: "api",
+    outputFormat: "jsonl",
+    stdout: { write: (chunk: string) => (output += chunk) },
+  });
+  log(logger);
+  return output.trimEnd();
+}
+
+describe("renderJsonLine", () => {
+  test("renders the text-mode prefix, context and args", () => {
+    const line = captureJsonLine((logger) =>
+      logger.child({ requestId: "abc" }).info("Started", { port: 3000 }),
+    );
+    const [rendered] = renderJsonLine(line, plain)!;
+    expect(rendered).toMatch(
+      /^\d{4}-\d{2}-\d{2}T\S+Z {2}\[INFO\] +\[api\] requestId=abc Started \{ port: 3000 \}$/,
+    );
+  });
+
+  test("renders timer duration tags", () => {
+    const line = captureJsonLine((logger) =>
+      logger.timer({ format: "raw" }).info("Done"),
+    );
+    expect(renderJsonLine(line, plain)![0]).toMatch(/\[api\] \[\d+ms\] Done$/);
+  });
+
+  test("leaves out span, trace and replay keys like text mode", () => {
+    const line = JSON.stringify({
+      ...JSON.parse(
+        captureJsonLine((logger) => logger.timer({ name: "job" }).info("hi"))
+          .split("\n")
+          .at(-1)!,
+      ),
+      traceId: "a".repeat(32),
+      spanId: "b".repeat(16),
+      recorded: true,
+    });
+    expect(renderJsonLine(line, plain)![0]).toMatch(/\[api\] \[\S+\] hi$/);
+  });
+
+  test("renders timer lap summaries", () => {
+    const line = captureJsonLine((logger) => {
+      const timer = logger.timer({ format: "raw" });
+      timer.mark("parse");
+      timer.end();
+    });
+    expect(renderJsonLine(line, plain)![0]).toMatch(
+      /\[\d+ms\] Timer stopped \| parse \+\d+ms \(\d+ms\)$/,
+    );
+  });
+
+  test("renders error properties and aggregated errors", () => {
+    const line = captureJsonLine((logger) =>
+      logger.error(
+        "Failed:",
+        new AggregateError(
+          [Object.assign(new Error("refused"), { code: "ECONNREFUSED" })],
+          "all failed",
+        ),
+      ),
+    );
+    const rendered = renderJsonLine(line, plain)!;
+    expect(rendered[1]).toMatch(/\[api\]   \[1\/1\] Error: refused$/);
+    expect(rendered[2]).toMatch(/\[api\]     code=ECONNREFUSED$/);
+  });
+
+  test("renders error cause chains and stacks", () => {
+    const line = captureJsonLine((logger) =>
+      logger.error("Failed:", new Error("outer", { cause: new Error("inner") })),
+    );
+    const rendered = renderJsonLine(line, plain)!;
+    expect(rendered[0]).toMatch(/Failed: outer$/);
+    expect(rendered[1]).toMatch(/\[api\]   Caused by: inner$/);
+    expect(rendered[2]).toMatch(/\[api\]   Error: outer$/);
+    expect(rendered).toContainEqual(expect.stringMatching(/ {2}Stack trace:$/));
+  });
+
+  test("uses level and module colors when enabled", () => {
+    const line = captureJsonLine((logger) => logger.warn("Careful"));
+    const [rendered] = renderJsonLine(line, { color: true, truecolor: true })!;
+    expect(rendered).toContain("\x1b[33m[WARN]");
+    expect(rendered).toContain("\x1b[38;2;");
+  });
+
+  test("returns undefined for non-record lines", () => {
+    expect(renderJsonLine("plain text", plain)).toBeUndefined();
+    expect(renderJsonLine('{"foo":1}', plain)).toBeUndefined();
+    expect(renderJsonLine("[1,2]", plain)).toBeUndefined();
+  });
+});
+
+describe("prettyPrint", () => {
+  test("renders records and passes other lines through", async () => {
+    const line = captureJsonLine((logger) => logger.info("Hello"));
+    let output = "";
+    await prettyPrint(
+      Readable.from([`${line}\nnot json\n`]),
+      { write: (chunk: string) => (output += chunk) },
+      plain,
+    );
+    const lines = output.trimEnd().split("\n");
+    expect(lines[0]).toMatch(/\[INFO\] +\[api\] Hello$/);
+    expect(lines[1]).toBe("not json");
+  });
+});
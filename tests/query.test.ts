@@ -0,0 +1,160 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createRecordFilter,
+  followLines,
+  parseQueryTime,
+  queryLogs,
+} from "../src/query";
+
+const records = [
+  { timestamp: "2026-01-01T10:00:00.000Z", level: "debug", module: "api:auth", message: "Token checked" },
+  { timestamp: "2026-01-01T10:05:00.000Z", level: "warn", module: "api:users", message: "Slow query", durationMs: 900 },
+  { timestamp: "2026-01-01T10:10:00.000Z", level: "error", module: "db", message: "Connection lost", requestId: "abc", args: [{ port: 5432 }] },
+];
+
+async function* linesOf(values: string[]): AsyncGenerator<string> {
+  yield* values;
+}
+
+async function collect(
+  query: Parameters<typeof queryLogs>[2],
+  format?: Parameters<typeof queryLogs>[3],
+): Promise<string[]> {
+  let output = "";
+  const lines = [...records.map((record) => JSON.stringify(record)), "not json"];
+  await queryLogs(
+    linesOf(lines),
+    { write: (chunk: string) => (output += chunk) },
+    query,
+    format,
+  );
+  return output.trimEnd().split("\n").filter(Boolean);
+}
+
+describe("createRecordFilter", () => {
+  test("filters by level threshold", () => {
+    const matches = createRecordFilter({ level: "warn" });
+    expect(records.filter(matches).map((r) => r.message)).toEqual([
+      "Slow query",
+      "Connection lost",
+    ]);
+  });
+
+  test("compares records at custom levels by their severity", () => {
+    const matches = createRecordFilter({ level: "warn" });
+    expect(matches({ level: "trace", severity: 10, message: "Frame" })).toBe(false);
+    expect(matches({ level: "audit", severity: 45, message: "Login" })).toBe(true);
+    expect(matches({ level: "info", message: "Started" })).toBe(false);
+  });
+
+  test("passes records at custom levels without a severity", () => {
+    const matches = createRecordFilter({ level: "warn" });
+    expect(matches({ level: "notice", message: "Config reloaded" })).toBe(true);
+  });
+
+  test("filters by module glob", () => {
+    const matches = createRecordFilter({ module: "api:*" });
+    expect(records.filter(matches).length).toBe(2);
+  });
+
+  test("filters by time range", () => {
+    const matches = createRecordFilter({
+      since: new Date("2026-01-01T10:01:00Z"),
+      until: new Date("2026-01-01T10:05:00Z"),
+    });
+    expect(records.filter(matches).map((r) => r.message)).toEqual(["Slow query"]);
+  });
+
+  test("filters by message text and regex", () => {
+    expect(records.filter(createRecordFilter({ text: "query" })).length).toBe(1);
+    expect(
+      records.filter(createRecordFilter({ text: "SLOW", ignoreCase: true })).length,
+    ).toBe(1);
+    expect(records.filter(createRecordFilter({ regex: /^(Slow|Token)/ })).length).toBe(2);
+  });
+
+  test("filters by field equality with dotted paths", () => {
+    const matches = createRecordFilter({
+      where: { requestId: "abc", "args.0.port": "5432" },
+    });
+    expect(records.filter(matches).map((r) => r.message)).toEqual([
+      "Connection lost",
+    ]);
+    expect(records.filter(createRecordFilter({ where: { durationMs: "900" } })).length).toBe(1);
+  });
+
+  test("throws on invalid level", () => {
+    expect(() => createRecordFilter({ level: "loud" as any })).toThrow(
+      'Invalid log level: "loud"',
+    );
+  });
+});
+
+describe("parseQueryTime", () => {
+  const now = new Date("2026-01-01T12:00:00Z");
+
+  test("parses relative durations", () => {
+    expect(parseQueryTime("15m", now).toISOString()).toBe("2026-01-01T11:45:00.000Z");
+    expect(parseQueryTime("1d", now).toISOString()).toBe("2025-12-31T12:00:00.000Z");
+  });
+
+  test("parses absolute dates", () => {
+    expect(parseQueryTime("2026-01-01T10:00:00Z").toISOString()).toBe(
+      "2026-01-01T10:00:00.000Z",
+    );
+  });
+
+  test("throws on invalid times", () => {
+    expect(() => parseQueryTime("yesterday")).toThrow('Invalid time: "yesterday"');
+  });
+});
+
+describe("queryLogs", () => {
+  test("writes matching lines unchanged and skips non-JSON", async () => {
+    const output = await collect({ level: "error" });
+    expect(output).toEqual([JSON.stringify(records[2])]);
+  });
+
+  test("renders matches as text in pretty mode", async () => {
+    const output = await collect({ module: "db" }, "pretty");
+    expect(output[0]).toMatch(/\[ERROR\] +\[db\] requestId=abc Connection lost/);
+  });
+});
+
+describe("followLines", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sml-query-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("yields existing and appended lines until aborted", async () => {
+    const path = join(dir, "app.log");
+    writeFileSync(path, "one\ntw");
+    const controller = new AbortController();
+    const seen: string[] = [];
+
+    const following = (async () => {
+      for await (const line of followLines(path, {
+        signal: controller.signal,
+        interval: 5,
+      })) {
+        seen.push(line);
+        if (seen.length === 3) controller.abort();
+      }
+    })();
+
+    await Bun.sleep(20);
+    expect(seen).toEqual(["one"]);
+    appendFileSync(path, "o\nthree\n");
+    await following;
+    expect(seen).toEqual(["one", "two", "three"]);
+  });
+});
@@ -0,0 +1,315 @@
+import { describe, test, expect, afterEach, spyOn } from "bun:test";
+import { dlopen } from "bun:ffi";
+import { createSocket } from "node:dgram";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Logger, type LoggerOptions } from "../src/logger";
+import { SyslogStream } from "../src/syslog";
+
+// Log through a syslog logger and return the written lines
+function captureSyslog(
+  log: (logger: Logger) => void,
+  options: LoggerOptions = {},
+): string[] {
+  let output = "";
+  const logger = new Logger({
+    logLevel: "debug",
+    module: "api",
+    sinks: [{ stream: { write: (chunk: string) => (output += chunk) }, format: "syslog" }],
+    syslog: { hostname: "host1", procId: 42 },
+    fatal: "log",
+    ...options,
+  });
+  log(logger);
+  return output.trimEnd().split("\n");
+}
+
+// Collect data received by a stream socket server until `count` messages arrived
+function listenStream(
+  server: Server,
+  split: (data: Buffer) => string[],
+  count: number,
+): Promise<string[]> {
+  return new Promise((resolve) => {
+    let data = Buffer.alloc(0);
+    server.on("connection", (socket) => {
+      socket.on("data", (chunk: Buffer) => {
+        data = Buffer.concat([data, chunk]);
+        const messages = split(data);
+        if (messages.length >= count) resolve(messages);
+      });
+    });
+  });
+}
+
+// Split RFC 6587 octet-counted frames (`LEN SP MSG`), lengths in bytes
+function splitOctetCounted(data: Buffer): string[] {
+  const messages: string[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(" ", offset);
+    if (space === -1) break;
+    const length = Number(data.subarray(offset, space).toString());
+    if (space + 1 + length > data.length) break;
+    messages.push(data.subarray(space + 1, space + 1 + length).toString());
+    offset = space + 1 + length;
+  }
+  return messages;
+}
+
+describe("syslog format", () => {
+  test("writes an RFC 5424 header", () => {
+    const [line] = captureSyslog((logger) => logger.info("Server started"));
+    expect(line).toMatch(
+      /^<14>1 \d{4}-\d{2}-\d{2}T\S+Z host1 api 42 - - Server started$/,
+    );
+  });
+
+  test("computes PRI from facility and level", () => {
+    const lines = captureSyslog(
+      (logger) => {
+        logger.debug("d");
+        logger.warn("w");
+        logger.error("e");
+        logger.fatal("f");
+      },
+      { syslog: { facility: "local0" } },
+    );
+    expect(lines.map((line) => line.slice(0, line.indexOf(">") + 1))).toEqual([
+      "<135>",
+      "<132>",
+      "<131>",
+      "<130>",
+    ]);
+  });
+
+  test("maps custom levels between info and warn to notice", () => {
+    let output = "";
+    const logger = Logger.create({
+      levels: { notice: { severity: 35 } },
+      sinks: [{ stream: { write: (chunk: string) => (output += chunk) }, format: "syslog" }],
+    });
+    logger.notice("Config reloaded");
+    expect(output).toStartWith("<13>1 ");
+  });
+
+  test("writes context fields as escaped structured data", () => {
+    const [line] = captureSyslog((logger) =>
+      logger.child({ requestId: "abc", note: 'say "hi" [x]', user: { id: 1 } }).info("ok"),
+    );
+    expect(line).toContain(
+      '[ctx@32473 requestId="abc" note="say \\"hi\\" [x\\]" user="{\\"id\\":1}"] ok',
+    );
+  });
+
+  test("writes errors and causes to an err element", () => {
+    const error = new TypeError("outer", { cause: new Error("inner") });
+    const [line] = captureSyslog((logger) => logger.error("Failed", error));
+    expect(line).toContain(
+      '[err@32473 0.name="TypeError" 0.message="outer" 0.cause.0="Error: inner"]',
+    );
+    expect(line).toEndWith(" Failed TypeError: outer");
+  });
+
+  test("writes error properties and aggregated errors", () => {
+    const error = new AggregateError(
+      [new Error("refused")],
+      "all failed",
+      { cause: "timeout" },
+    );
+    Object.assign(error, { code: "EALL" });
+    const [line] = captureSyslog((logger) => logger.error("Failed", error));
+    expect(line).toContain(
+      '0.name="AggregateError" 0.message="all failed" 0.code="EALL" 0.errors.0="Error: refused" 0.cause.0="timeout"]',
+    );
+  });
+
+  test("keeps multi-line messages on one line", () => {
+    const [line] = captureSyslog((logger) => logger.info("a\nb", { port: 1 }));
+    expect(line).toEndWith(' - a\\nb {"port":1}');
+  });
+
+  test("uses '-' when there is no module", () => {
+    const [line] = captureSyslog((logger) => logger.info("x"), { module: "" });
+    expect(line).toContain(" host1 - 42 - - x");
+  });
+
+  test("rejects unknown facilities", () => {
+    expect(() => new Logger({ syslog: { facility: "local9" as any } })).toThrow(
+      'Invalid syslog facility: "local9"',
+    );
+  });
+});
+
+// A bound Unix datagram socket read through libc, as Node and Bun cannot bind one (Linux only)
+function bindUnixDatagram(path: string) {
+  const { symbols } = dlopen("libc.so.6", {
+    socket: { args: ["i32", "i32", "i32"], returns: "i32" },
+    bind: { args: ["i32", "ptr", "u32"], returns: "i32" },
+    recv: { args: ["i32", "ptr", "u64", "i32"], returns: "i64" },
+    close: { args: ["i32"], returns: "i32" },
+  });
+  const address = Buffer.alloc(2 + Buffer.byteLength(path) + 1);
+  address.writeUInt16LE(1, 0);
+  address.write(path, 2);
+  const fd = symbols.socket(1, 2, 0);
+  if (symbols.bind(fd, address, address.length) !== 0) throw new Error(`Cannot bind ${path}`);
+  return {
+    async receive(count: number): Promise<string[]> {
+      const messages: string[] = [];
+      const buffer = Buffer.alloc(4096);
+      for (let attempt = 0; messages.length < count && attempt < 100; attempt++) {
+        const length = Number(symbols.recv(fd, buffer, buffer.length, 0x40));
+        if (length >= 0) messages.push(buffer.toString("utf8", 0, length));
+        else await Bun.sleep(10);
+      }
+      return messages;
+    },
+    close: () => symbols.close(fd),
+  };
+}
+
+describe("SyslogStream", () => {
+  let dir: string | undefined;
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  test("sends each line as a UDP datagram", async () => {
+    const listener = createSocket("udp4");
+    await new Promise<void>((resolve) => listener.bind(0, "127.0.0.1", resolve));
+    const received: string[] = [];
+    const done = new Promise<void>((resolve) => {
+      listener.on("message", (message) => {
+        received.push(message.toString());
+        if (received.length === 2) resolve();
+      });
+    });
+
+    const stream = new SyslogStream({ port: listener.address().port });
+    const logger = new Logger({ module: "api", sinks: [{ stream, format: "syslog" }] });
+    logger.info("first");
+    logger.warn("second");
+    await done;
+    await logger.close();
+    listener.close();
+
+    expect(received[0]).toMatch(/^<14>1 .* api \d+ - - first$/);
+    expect(received[1]).toMatch(/^<12>1 .* second$/);
+  });
+
+  test("frames TCP messages with octet counting", async () => {
+    server = createServer();
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    const port = (server.address() as { port: number }).port;
+    const received = listenStream(server, splitOctetCounted, 2);
+
+    const stream = new SyslogStream({ port, protocol: "tcp" });
+    const logger = new Logger({ sinks: [{ stream, format: "syslog" }], buffered: true });
+    logger.info("héllo");
+    logger.info("world");
+    await logger.flush();
+    const [first, second] = await received;
+    await logger.close();
+
+    expect(first).toEndWith(" héllo");
+    expect(second).toEndWith(" world");
+  });
+
+  test("writes newline-framed messages to a Unix socket", async () => {
+    dir = mkdtempSync(join(tmpdir(), "sml-syslog-"));
+    const path = join(dir, "log.sock");
+    server = createServer();
+    await new Promise<void>((resolve) => server!.listen(path, resolve));
+    const received = listenStream(
+      server,
+      (data) => data.toString().split("\n").filter(Boolean),
+      1,
+    );
+
+    const stream = new SyslogStream({ path });
+    const logger = new Logger({ module: "unix", sinks: [{ stream, format: "syslog" }] });
+    logger.error("disk full");
+    const [message] = await received;
+    await logger.close();
+
+    expect(message).toMatch(/^<11>1 \S+ \S+ unix \d+ - - disk full$/);
+  });
+
+  test("reports connection errors and keeps logging", async () => {
+    const errors: Error[] = [];
+    const stream = new SyslogStream({
+      path: "/nonexistent/log.sock",
+      onError: (error) => errors.push(error),
+    });
+    const logger = new Logger({ sinks: [{ stream, format: "syslog" }] });
+    logger.info("lost");
+    await Bun.sleep(20);
+    logger.info("also lost");
+    await logger.close();
+    expect(errors.length).toBeGreaterThan(0);
+  });
+
+  test.skipIf(process.platform !== "linux")(
+    "sends each line as one datagram to a Unix datagram socket",
+    async () => {
+      dir = mkdtempSync(join(tmpdir(), "sml-syslog-"));
+      const receiver = bindUnixDatagram(join(dir, "log"));
+      try {
+        const stream = new SyslogStream({ path: join(dir, "log") });
+        const logger = new Logger({ module: "unix", sinks: [{ stream, format: "syslog" }] });
+        logger.error("disk full");
+        logger.info("second");
+        await logger.close();
+        const messages = await receiver.receive(2);
+        expect(messages[0]).toMatch(/^<11>1 \S+ \S+ unix \d+ - - disk full$/);
+        expect(messages[1]).toEndWith(" second");
+      } finally {
+        receiver.close();
+      }
+    },
+  );
+
+  test("reports refused Unix socket connections and retries", async () => {
+    dir = mkdtempSync(join(tmpdir(), "sml-syslog-"));
+    const path = join(dir, "not-a-socket");
+    writeFileSync(path, "");
+    const errors: NodeJS.ErrnoException[] = [];
+    const stream = new SyslogStream({ path, onError: (error) => errors.push(error) });
+    stream.write("<14>1 - - - - - - lost\n");
+    await Bun.sleep(20);
+    stream.write("<14>1 - - - - - - lost again\n");
+    await Bun.sleep(20);
+    stream.end();
+    expect(errors.map((error) => error.code)).toEqual(["ECONNREFUSED", "ECONNREFUSED"]);
+  });
+
+  test("reports delivery errors on stderr by default", async () => {
+    const write = spyOn(process.stderr, "write").mockImplementation(() => true);
+    try {
+      const stream = new SyslogStream({ path: "/nonexistent/log.sock" });
+      stream.write("<14>1 - - - - - - lost\n");
+      await Bun.sleep(20);
+      stream.write("<14>1 - - - - - - lost again\n");
+      await Bun.sleep(20);
+      stream.end();
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(String(write.mock.calls[0]![0])).toStartWith("SyslogStream: ");
+    } finally {
+      write.mockRestore();
+    }
+  });
+
+  test("requires a path for unix sockets", () => {
+    expect(() => new SyslogStream({ protocol: "unix" })).toThrow(
+      'Invalid syslog transport: "unix" requires a path',
+    );
+  });
+});
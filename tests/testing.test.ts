@@ -0,0 +1,128 @@
+import { describe, test, expect } from "bun:test";
+import { FatalError, Logger } from "../src/logger";
+import { CaptureStream, MemoryLogger } from "../src/testing";
+
+describe("MemoryLogger", () => {
+  test("captures structured entries at every level", () => {
+    const logger = new MemoryLogger({ module: "api" });
+    logger.debug("Connecting", { host: "db" });
+    logger.info("Listening on %d", 3000);
+
+    expect(logger.entries).toHaveLength(2);
+    const [debug, info] = logger.entries;
+    expect(debug!.level).toBe("debug");
+    expect(debug!.module).toBe("api");
+    expect(debug!.message).toBe("Connecting");
+    expect(debug!.args).toEqual([{ host: "db" }]);
+    expect(info!.message).toBe("Listening on 3000");
+    expect(info!.fields["msgTemplate"]).toBe("Listening on %d");
+  });
+
+  test("captures errors with their causes", () => {
+    const logger = new MemoryLogger();
+    logger.error("Request failed", new Error("timeout", { cause: new Error("socket") }));
+    const [entry] = logger.entries;
+    expect(entry!.errors[0]!.message).toBe("timeout");
+    expect(entry!.errors[0]!.causes![0]!.message).toBe("socket");
+  });
+
+  test("captures timer durations", () => {
+    const logger = new MemoryLogger();
+    logger.timer().info("done");
+    const entry = logger.expectLogged({ message: "done" });
+    expect(entry.duration).toEqual(expect.any(String));
+    expect(entry.durationMs).toEqual(expect.any(Number));
+  });
+
+  test("captures child loggers with their fields", () => {
+    const logger = new MemoryLogger();
+    logger.child({ requestId: "r1" }).warn("Slow request");
+    logger.expectLogged({ level: "warn", fields: { requestId: "r1" } });
+  });
+
+  test("does not exit on fatal", () => {
+    const logger = new MemoryLogger();
+    logger.fatal("Out of memory");
+    logger.expectLogged({ level: "fatal" });
+    expect(() => new MemoryLogger({ fatal: "throw" }).fatal("boom")).toThrow(FatalError);
+  });
+
+  test("respects an explicit log level", () => {
+    const logger = new MemoryLogger({ logLevel: "warn" });
+    logger.info("hidden");
+    expect(logger.entries).toHaveLength(0);
+  });
+
+  test("types custom level methods via create", () => {
+    const logger = MemoryLogger.create({ levels: { notice: { severity: 35 } } });
+    logger.notice("Config reloaded");
+    logger.expectLogged({ level: "notice" });
+  });
+
+  test("clears captured entries", () => {
+    const logger = new MemoryLogger();
+    logger.info("one");
+    logger.clear();
+    expect(logger.entries).toHaveLength(0);
+  });
+});
+
+describe("expectLogged", () => {
+  test("matches by level, module, message pattern and error", () => {
+    const logger = new MemoryLogger({ module: "http" });
+    logger.error("Upstream timeout after 5s", new TypeError("fetch failed"));
+    logger.expectLogged({ level: "error", module: "http", message: /timeout/ });
+    logger.expectLogged({ error: "fetch failed" });
+    logger.expectLogged({ error: /^TypeError: fetch/ });
+  });
+
+  test("throws listing captured entries when nothing matches", () => {
+    const logger = new MemoryLogger({ module: "api" });
+    logger.info("Started");
+    expect(() => logger.expectLogged({ level: "error", message: /timeout/ })).toThrow(
+      "Captured entries:\n  INFO [api] Started",
+    );
+    expect(() => new MemoryLogger().expectLogged({ level: "info" })).toThrow(
+      "No entries were captured",
+    );
+  });
+
+  test("expectNotLogged throws listing matching entries", () => {
+    const logger = new MemoryLogger();
+    logger.warn("Retrying");
+    logger.expectNotLogged({ level: "error" });
+    expect(() => logger.expectNotLogged({ level: "warn" })).toThrow("WARN Retrying");
+  });
+
+  test("findAllLogged returns every match", () => {
+    const logger = new MemoryLogger();
+    logger.info("a");
+    logger.warn("b");
+    logger.info("c");
+    expect(logger.findAllLogged({ level: "info" }).map((e) => e.message)).toEqual([
+      "a",
+      "c",
+    ]);
+  });
+});
+
+describe("CaptureStream", () => {
+  test("captures records written by a regular logger", () => {
+    const capture = new CaptureStream();
+    const logger = new Logger({
+      sinks: [{ stream: capture, format: "jsonl" }],
+      fatal: "log",
+    });
+    logger.info("first");
+    logger.info({ port: 3000 });
+    expect(capture.find({ message: "first" })?.level).toBe("info");
+    capture.expectLogged({ message: '{"port":3000}' });
+  });
+
+  test("joins records split across writes", () => {
+    const capture = new CaptureStream();
+    capture.write('{"level":"info","mess');
+    capture.write('age":"x"}\n');
+    expect(capture.entries.map((entry) => entry.message)).toEqual(["x"]);
+  });
+});
@@ -0,0 +1,5 @@
+import { defineConfig } from "tsdown";
+
+export default defineConfig({
+  entry: ["src/index.ts", "src/pretty-cli.ts", "src/query-cli.ts"],
+});